@@ -1,15 +1,97 @@
 "use client";
 
-import React, { useState } from "react";
-import { SpriteStripViewer } from "@teammeer.com/3dtostrip";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import SpriteStripViewer from "@/components/SpriteStripViewer";
+import SpriteStripPlayer from "@/components/SpriteStripPlayer";
 import SimpleTextureSelector from "@/components/SimpleTextureSelector";
-import { useSpriteStripGenerator } from "@teammeer.com/3dtostrip";
+import AnimationExportPanel from "@/components/AnimationExportPanel";
+import VideoExportPanel from "@/components/VideoExportPanel";
+import BatchGenerationPanel from "@/components/BatchGenerationPanel";
+import HistoryPanel from "@/components/HistoryPanel";
+import PresetControls from "@/components/PresetControls";
+import CameraControls from "@/components/CameraControls";
+import LightingControls from "@/components/LightingControls";
+import EnvironmentControls from "@/components/EnvironmentControls";
+import MaterialTextureControls from "@/components/MaterialTextureControls";
+import FrameSizeControls from "@/components/FrameSizeControls";
+import VariantComparison from "@/components/VariantComparison";
+import PixelArtControls from "@/components/PixelArtControls";
+import CompanionMapControls from "@/components/CompanionMapControls";
+import TrimControls from "@/components/TrimControls";
+import AnimationControls from "@/components/AnimationControls";
+import DirectionalControls from "@/components/DirectionalControls";
+import ModelPreview from "@/components/ModelPreview";
+import ModelUploadZone, { type ModelUpload } from "@/components/ModelUploadZone";
+import {
+  DEFAULT_ROTATION,
+  MAX_FRAME_COUNT,
+  MIN_FRAME_COUNT,
+  estimateSheetGeometry,
+  getFrameDimensions,
+  listAnimationClips,
+  useSpriteStripGenerator,
+  type UseSpriteStripGeneratorOptions,
+} from "@/hooks/use-sprite-strip-generator";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
 import { useFileUpload } from "@/hooks/use-file-upload";
-import { AlertCircleIcon, ImageIcon, UploadIcon } from "lucide-react";
+import { ATLAS_FORMAT_LABELS, getAtlasDirections, serializeAtlas, type AtlasFormat } from "@/lib/atlas-export";
+import { getCompanionFileName, serializeCompanionMaps } from "@/lib/companion-maps";
+import { downloadBlob, downloadUrl } from "@/lib/download";
+import { serializeFrameBounds } from "@/lib/frame-trim";
+import { DEFAULT_GENERATION_SETTINGS, isSameSettings, toGeneratorOptions } from "@/lib/generation-settings";
+import { getTextureSizeWarning } from "@/lib/sprite-sheet";
+import { buildSettingsUrl, settingsFromSearchParams, settingsToSearchParams } from "@/lib/settings-url";
+import { getMaterialTextureNames, getVariantTextures, hasTextures, resolveMaterialTextures } from "@/lib/texture-slots";
+import { useGenerationHistory, type HistoryItem } from "@/hooks/use-generation-history";
+import { useLoadedModel } from "@/hooks/use-loaded-model";
+import { useEnvironmentMap } from "@/hooks/use-environment-map";
+import { AlertCircleIcon, CheckIcon, ImageIcon, LinkIcon, UploadIcon, XIcon } from "lucide-react";
+import type {
+  AnimationSettings,
+  AspectRatio,
+  BackgroundMode,
+  CameraSettings,
+  CompanionMap,
+  DirectionalSettings,
+  EnvironmentSettings,
+  FrameSize,
+  GenerationSettings,
+  MaterialTextureMap,
+  PixelArtSettings,
+  RotationAxis,
+  RotationDirection,
+  SheetLayoutMode,
+  SourceMode,
+  SpriteStripData,
+  TrimSettings,
+} from "@/types";
+
+const FRAME_COUNT_PRESETS = [8, 16, 36];
+
+// Empty or invalid input means "auto"
+const parseGridCount = (value: string) => {
+  const count = Math.round(Number(value));
+  return value !== '' && count >= 1 ? count : undefined;
+};
+
+// What moves from frame to frame: the turntable arc, a clip, or the facings of a directional sheet
+const describeSheetSource = (metadata: SpriteStripData['metadata']) => {
+  const { animation, directions, rotation } = metadata;
+  if (directions) {
+    const names = directions.map((direction) => direction.name).join(', ');
+    return `${directions.length} directions (${names})${animation ? ` playing "${animation.clip}"` : ''}`;
+  }
+  if (animation) {
+    return `clip "${animation.clip}", ${animation.duration.toFixed(2)}s at ${animation.fps.toFixed(1)} fps`;
+  }
+  if (!rotation) return `${metadata.frameCount} frames`;
+  return `${rotation.startAngle}°–${rotation.endAngle}° around ${rotation.axis.toUpperCase()} (${rotation.direction})`;
+};
+
+const selectClassName = "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50";
 
 // Texture Upload Component
 function TextureUploadArea({ onTexturesChange }: { onTexturesChange: (textures: File[]) => void; textures: File[] }) {
@@ -122,43 +204,235 @@ function TextureUploadArea({ onTexturesChange }: { onTexturesChange: (textures:
 
 export default function Home() {
   const [file, setFile] = useState<File | null>(null);
-  const [texture, setTexture] = useState<File | null>(null);
-  const [ratio, setRatio] = useState<'16:9' | '4:3' | '1:1'>('4:3');
-  const [backgroundColor, setBackgroundColor] = useState<string>('#ffffff');
-  const [lightingIntensity, setLightingIntensity] = useState<number>(1.0);
-  const [ambientIntensity, setAmbientIntensity] = useState<number>(0.8);
+  const [resourceFiles, setResourceFiles] = useState<File[]>([]);
+  const [ratio, setRatio] = useState<AspectRatio>(DEFAULT_GENERATION_SETTINGS.ratio);
+  const [frameSize, setFrameSize] = useState<FrameSize>(DEFAULT_GENERATION_SETTINGS.frameSize);
+  const [backgroundColor, setBackgroundColor] = useState<string>(DEFAULT_GENERATION_SETTINGS.backgroundColor);
+  const [backgroundMode, setBackgroundMode] = useState<BackgroundMode>(DEFAULT_GENERATION_SETTINGS.backgroundMode);
+  const [fringeFix, setFringeFix] = useState<boolean>(DEFAULT_GENERATION_SETTINGS.fringeFix);
+  const [lighting, setLighting] = useState<GenerationSettings['lighting']>(DEFAULT_GENERATION_SETTINGS.lighting);
+  const [environment, setEnvironment] = useState<EnvironmentSettings>(DEFAULT_GENERATION_SETTINGS.environment);
+  const [environmentFile, setEnvironmentFile] = useState<File | null>(null);
+  const [materialTextures, setMaterialTextures] = useState<MaterialTextureMap>(DEFAULT_GENERATION_SETTINGS.materialTextures);
+  const [pixelArt, setPixelArt] = useState<PixelArtSettings>(DEFAULT_GENERATION_SETTINGS.pixelArt);
+  const [companionMaps, setCompanionMaps] = useState<CompanionMap[]>(DEFAULT_GENERATION_SETTINGS.companionMaps);
+  const [trim, setTrim] = useState<TrimSettings>(DEFAULT_GENERATION_SETTINGS.trim);
+  const [sourceMode, setSourceMode] = useState<SourceMode>(DEFAULT_GENERATION_SETTINGS.sourceMode);
+  const [frameCount, setFrameCount] = useState<number>(DEFAULT_GENERATION_SETTINGS.frameCount);
+  // What is typed in the frame count field, clamped only once it is left
+  const [frameCountDraft, setFrameCountDraft] = useState(String(DEFAULT_GENERATION_SETTINGS.frameCount));
+  const [rotationArc, setRotationArc] = useState<[number, number]>([DEFAULT_ROTATION.startAngle, DEFAULT_ROTATION.endAngle]);
+  const [rotationAxis, setRotationAxis] = useState<RotationAxis>(DEFAULT_ROTATION.axis);
+  const [rotationDirection, setRotationDirection] = useState<RotationDirection>(DEFAULT_ROTATION.direction);
+  const [animation, setAnimation] = useState<AnimationSettings>(DEFAULT_GENERATION_SETTINGS.animation);
+  const [directional, setDirectional] = useState<DirectionalSettings>(DEFAULT_GENERATION_SETTINGS.directional);
+  const [camera, setCamera] = useState<CameraSettings>(DEFAULT_GENERATION_SETTINGS.camera);
+  const [layoutMode, setLayoutMode] = useState<SheetLayoutMode>(DEFAULT_GENERATION_SETTINGS.layout.mode);
+  const [gridColumns, setGridColumns] = useState<number | undefined>(undefined);
+  const [gridRows, setGridRows] = useState<number | undefined>(undefined);
+  const [framePadding, setFramePadding] = useState<number>(DEFAULT_GENERATION_SETTINGS.layout.padding);
+  const [exportFormat, setExportFormat] = useState<'png' | AtlasFormat>('png');
+  const [frameDuration, setFrameDuration] = useState<number>(100);
+  const [urlRestored, setUrlRestored] = useState(false);
+  const [settingsNotice, setSettingsNotice] = useState<{ title: string; messages: string[] } | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  const history = useGenerationHistory();
+
+  const settings: GenerationSettings = {
+    ratio,
+    frameSize,
+    sourceMode,
+    frameCount,
+    rotation: {
+      startAngle: rotationArc[0],
+      endAngle: rotationArc[1],
+      axis: rotationAxis,
+      direction: rotationDirection
+    },
+    animation,
+    directional,
+    layout: {
+      mode: layoutMode,
+      columns: gridColumns,
+      rows: gridRows,
+      padding: framePadding
+    },
+    backgroundColor,
+    backgroundMode,
+    fringeFix,
+    camera,
+    lighting,
+    environment,
+    materialTextures,
+    pixelArt,
+    companionMaps,
+    trim
+  };
+
+  const applySettings = useCallback((next: GenerationSettings) => {
+    setRatio(next.ratio);
+    setFrameSize(next.frameSize);
+    setSourceMode(next.sourceMode);
+    setFrameCount(next.frameCount);
+    setRotationArc([next.rotation.startAngle, next.rotation.endAngle]);
+    setRotationAxis(next.rotation.axis);
+    setRotationDirection(next.rotation.direction);
+    setAnimation(next.animation);
+    setDirectional(next.directional);
+    setLayoutMode(next.layout.mode);
+    setGridColumns(next.layout.columns);
+    setGridRows(next.layout.rows);
+    setFramePadding(next.layout.padding);
+    setBackgroundColor(next.backgroundColor);
+    setBackgroundMode(next.backgroundMode);
+    setFringeFix(next.fringeFix);
+    setCamera(next.camera);
+    setLighting(next.lighting);
+    setEnvironment(next.environment);
+    setMaterialTextures(next.materialTextures);
+    setPixelArt(next.pixelArt);
+    setCompanionMaps(next.companionMaps);
+    setTrim(next.trim);
+  }, []);
+
+  // Settings shared through a link are applied once, before the URL starts following the form
+  useEffect(() => {
+    const restored = settingsFromSearchParams(new URLSearchParams(window.location.search));
+    if (restored) {
+      applySettings(restored.settings);
+      if (restored.issues.length > 0) {
+        setSettingsNotice({
+          title: 'Some settings from the link were invalid and have been replaced:',
+          messages: restored.issues,
+        });
+      }
+    }
+    setUrlRestored(true);
+  }, [applySettings]);
+
+  const settingsQuery = isSameSettings(settings, DEFAULT_GENERATION_SETTINGS)
+    ? ''
+    : settingsToSearchParams(settings).toString();
+
+  useEffect(() => {
+    if (!urlRestored) return;
+    const url = new URL(window.location.href);
+    url.search = settingsQuery;
+    window.history.replaceState(window.history.state, '', url);
+  }, [urlRestored, settingsQuery]);
+
+  const handleCopySettingsLink = async () => {
+    const link = buildSettingsUrl(window.location.href, settings);
+    try {
+      await navigator.clipboard.writeText(link);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch {
+      setSettingsNotice({ title: 'Could not access the clipboard. Copy this link instead:', messages: [link] });
+    }
+  };
+
+  const generatorOptions: UseSpriteStripGeneratorOptions = {
+    ...toGeneratorOptions(settings),
+    // Every sheet, single or batch, is kept in the local history
+    onGenerate: (data, source) => history.save(data, settings, source),
+    maxTextures: 10,
+    acceptedFormats: ['.png', '.jpg', '.jpeg', '.webp']
+  };
 
   const {
     generateSpriteStrip,
+    generateVariants,
+    showSpriteStrip,
     isGenerating,
     progress,
     generatedData,
+    generatedStrips,
+    variantRuns,
     error,
     // Texture management from hook
     textures,
     selectedTexture,
+    textureSet,
     addTextures,
-    selectTexture
-  } = useSpriteStripGenerator({
-    ratio,
-    backgroundColor,
-    lighting: {
-      ambientLight: { intensity: ambientIntensity },
-      directionalLight: { intensity: lightingIntensity, position: { x: 2, y: 2, z: 2 } }
-    },
-    maxTextures: 10,
-    acceptedFormats: ['.png', '.jpg', '.jpeg', '.webp']
-  });
+    selectTexture,
+    assignTextureSlot,
+    getTexturePreview
+  } = useSpriteStripGenerator(generatorOptions);
+
+  // The uploads the material mapping names, which travel with the model like its texture slots
+  const materialTextureFiles = useMemo(() => {
+    const names = getMaterialTextureNames(materialTextures);
+    return textures.filter((texture) => names.includes(texture.name));
+  }, [materialTextures, textures]);
+  const resolvedMaterialTextures = useMemo(
+    () => resolveMaterialTextures(materialTextures, materialTextureFiles),
+    [materialTextures, materialTextureFiles]
+  );
+  const variantTextures = useMemo(() => getVariantTextures(textures, textureSet), [textures, textureSet]);
+  const loadedModel = useLoadedModel(file, resourceFiles, textureSet, resolvedMaterialTextures);
+  const environmentMap = useEnvironmentMap(environment.map, environmentFile);
+  // Only a custom environment needs the upload; history keeps it alongside the model
+  const customEnvironmentFile = environment.map === 'custom' ? environmentFile ?? undefined : undefined;
+  const animationClips = useMemo(
+    () => (loadedModel.model ? listAnimationClips(loadedModel.model) : []),
+    [loadedModel.model]
+  );
+
+  // Presets, links and history set the count directly; the field follows
+  useEffect(() => {
+    setFrameCountDraft(String(frameCount));
+  }, [frameCount]);
+
+  const commitFrameCount = () => {
+    const value = Number(frameCountDraft);
+    const next = frameCountDraft.trim() !== '' && Number.isFinite(value)
+      ? Math.min(MAX_FRAME_COUNT, Math.max(MIN_FRAME_COUNT, Math.round(value)))
+      : frameCount;
+    setFrameCount(next);
+    setFrameCountDraft(String(next));
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!file) return;
 
-    // Use selected texture from the texture selector, fallback to legacy texture
-    const textureToUse = selectedTexture || texture;
-    await generateSpriteStrip(file, textureToUse ?? undefined);
+    try {
+      await generateSpriteStrip({
+        modelFile: file,
+        textures: textureSet,
+        materialTextures: materialTextureFiles,
+        resourceFiles,
+        environmentFile: customEnvironmentFile,
+      });
+    } catch {
+      // Already shown through the generator's error
+    }
+  };
+
+  // Same settings and maps as Generate, with each uploaded skin as the base colour in turn
+  const handleGenerateVariants = async () => {
+    if (!file) return;
+
+    try {
+      await generateVariants({
+        modelFile: file,
+        textures: textureSet,
+        materialTextures: materialTextureFiles,
+        resourceFiles,
+        environmentFile: customEnvironmentFile,
+      }, variantTextures);
+    } catch {
+      // Already shown through the generator's error
+    }
   };
 
+  const handleModelUpload = useCallback((upload: ModelUpload) => {
+    setFile(upload.modelFile);
+    setResourceFiles(upload.resourceFiles);
+  }, []);
+
 
   const handleTexturesChange = (newTextures: File[]) => {
     addTextures(newTextures);
@@ -166,37 +440,95 @@ export default function Home() {
 
   const handleTextureSelect = (texture: File | null) => {
     selectTexture(texture);
-    if (texture) {
-      setTexture(texture);
-    }
   };
 
 
+  const downloadSpriteStrip = (data: SpriteStripData) => {
+    const title = data.title || 'sprite';
+    const imageFileName = `${title}.png`;
+    downloadUrl(data.spriteStripUrl, imageFileName);
+
+    const atlasSource = {
+      title,
+      imageFileName,
+      frameCount: data.frameCount,
+      layout: data.metadata.layout,
+      frameDuration,
+      directions: data.metadata.directions,
+      pivot: data.metadata.pivot,
+      trim: data.metadata.trim,
+    };
+    if (exportFormat !== 'png') {
+      const atlas = serializeAtlas(exportFormat, atlasSource);
+      downloadBlob(new Blob([atlas], { type: 'application/json' }), `${title}.json`);
+    } else {
+      // Without an atlas the row facings and frame offsets still travel with the image
+      if (data.metadata.directions) {
+        const rows = JSON.stringify({ image: imageFileName, directions: getAtlasDirections(atlasSource) }, null, 2);
+        downloadBlob(new Blob([rows], { type: 'application/json' }), `${title}.directions.json`);
+      }
+      if (data.metadata.trim) {
+        const bounds = serializeFrameBounds(imageFileName, data.metadata.layout, data.metadata.trim, data.metadata.pivot);
+        downloadBlob(new Blob([bounds], { type: 'application/json' }), `${title}.frames.json`);
+      }
+    }
+
+    // Companion strips share the atlas above, so only the images and their encoding are added
+    const companionUrls = Object.entries(data.companionUrls ?? {}) as [CompanionMap, string][];
+    if (companionUrls.length > 0) {
+      companionUrls.forEach(([map, url]) => downloadUrl(url, getCompanionFileName(title, map)));
+      downloadBlob(
+        new Blob([serializeCompanionMaps(imageFileName, data)], { type: 'application/json' }),
+        `${title}.maps.json`
+      );
+    }
+  };
+
   const handleDownload = () => {
     if (!generatedData?.spriteStripUrl) return;
-    const link = document.createElement('a');
-    const fileName = `${generatedData.title || 'sprite'}.png`;
-    link.href = generatedData.spriteStripUrl;
-    link.download = fileName;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadSpriteStrip(generatedData);
   };
 
-  // Get dynamic aspect ratio class based on selected ratio
-  const getAspectRatioClass = (ratio: string) => {
-    switch (ratio) {
-      case '16:9':
-        return 'aspect-video'; // 16:9 aspect ratio
-      case '4:3':
-        return 'aspect-[4/3]'; // 4:3 aspect ratio
-      case '1:1':
-        return 'aspect-square'; // 1:1 aspect ratio
-      default:
-        return 'aspect-[4/3]'; // Default to 4:3
+  const handleHistoryRegenerate = async (item: HistoryItem) => {
+    const {
+      model,
+      texture: storedTexture,
+      textures: storedTextures,
+      materialTextures: storedMaterialTextures,
+      resources = [],
+      environment: storedEnvironment,
+      settings: storedSettings,
+    } = item.entry;
+    if (!model) return;
+
+    applySettings(storedSettings);
+    setFile(model);
+    setResourceFiles(resources);
+    if (storedEnvironment) setEnvironmentFile(storedEnvironment);
+    try {
+      await generateSpriteStrip({
+        modelFile: model,
+        textures: storedTextures ?? (storedTexture ? { baseColor: storedTexture } : undefined),
+        materialTextures: storedMaterialTextures,
+        resourceFiles: resources,
+        environmentFile: storedEnvironment,
+      }, {
+        ...toGeneratorOptions(storedSettings),
+        onGenerate: (data, source) => history.save(data, storedSettings, source),
+      });
+    } catch {
+      // Already shown through the generator's error
     }
   };
 
+  const frameDimensions = getFrameDimensions(settings);
+  // Checked before rendering; 'auto' frames are assumed at their largest
+  const estimatedSheet = estimateSheetGeometry(toGeneratorOptions(settings), animationClips);
+  const sheetSizeWarning = getTextureSizeWarning(estimatedSheet.sheetWidth, estimatedSheet.sheetHeight);
+  const generatedSheetWarning = generatedData
+    ? getTextureSizeWarning(generatedData.metadata.layout.sheetWidth, generatedData.metadata.layout.sheetHeight)
+    : null;
+
   return (
     <div className="flex-1 p-6 bg-white">
       <div className="container mx-auto h-full">
@@ -206,16 +538,29 @@ export default function Home() {
           {/* Form Section */}
           <div>
             <form onSubmit={handleSubmit} className="space-y-6">
-          <div className="flex flex-col gap-3">
-            <Label htmlFor="model-file" className="text-sm font-medium">3D Model File (.gltf/.glb/.fbx/.obj)</Label>
-            <Input
-              id="model-file"
-              type="file"
-              accept=".gltf,.glb,.fbx,.obj"
-              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
-              required
-            />
-          </div>
+          {settingsNotice && (
+            <div
+              className="flex items-start gap-2 rounded-lg border border-destructive/30 p-3 text-xs text-destructive"
+              role="alert"
+            >
+              <AlertCircleIcon className="size-3 mt-0.5 shrink-0" />
+              <div className="flex-1 space-y-1">
+                <p className="font-medium">{settingsNotice.title}</p>
+                {settingsNotice.messages.map((message, index) => (
+                  <p key={index} className="break-all">{message}</p>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={() => setSettingsNotice(null)}
+                aria-label="Dismiss notice"
+              >
+                <XIcon className="size-3" />
+              </button>
+            </div>
+          )}
+
+          <ModelUploadZone onChange={handleModelUpload} selectClassName={selectClassName} />
 
           {/* Texture Upload Area */}
           <TextureUploadArea
@@ -228,78 +573,305 @@ export default function Home() {
             <SimpleTextureSelector
               textures={textures}
               selectedTexture={selectedTexture}
+              textureSlots={textureSet}
+              onTextureSlotChange={assignTextureSlot}
+              selectClassName={selectClassName}
               onTexturesChange={handleTexturesChange}
               onTextureSelect={handleTextureSelect}
               maxTextures={10}
             />
           </div>
 
+          <div className="border p-4 rounded-lg bg-white">
+            <MaterialTextureControls
+              materials={loadedModel.materials}
+              value={materialTextures}
+              onChange={setMaterialTextures}
+              textures={textures}
+              getTexturePreview={getTexturePreview}
+              sharedTexture={selectedTexture}
+              hasSharedTextures={hasTextures(textureSet)}
+              hasModel={!!file}
+              isLoading={loadedModel.isLoading}
+              selectClassName={selectClassName}
+            />
+          </div>
+
+          {/* Presets */}
+          <PresetControls settings={settings} onApply={applySettings} selectClassName={selectClassName} />
+
+          <Button type="button" size="sm" variant="outline" onClick={handleCopySettingsLink}>
+            {linkCopied ? <CheckIcon aria-hidden="true" /> : <LinkIcon aria-hidden="true" />}
+            {linkCopied ? 'Link copied' : 'Copy settings link'}
+          </Button>
 
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+            <FrameSizeControls
+              ratio={ratio}
+              onRatioChange={setRatio}
+              frameSize={frameSize}
+              onFrameSizeChange={setFrameSize}
+              selectClassName={selectClassName}
+              className="sm:col-span-2"
+            />
+
             <div className="flex flex-col gap-3">
-              <Label htmlFor="aspect-ratio" className="text-sm font-medium">Aspect Ratio</Label>
+              <Label htmlFor="sheet-layout" className="text-sm font-medium">Layout</Label>
               <select
-                id="aspect-ratio"
-                value={ratio}
-                onChange={(e) => setRatio(e.target.value as '16:9' | '4:3' | '1:1')}
-                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                id="sheet-layout"
+                value={layoutMode}
+                onChange={(e) => setLayoutMode(e.target.value as SheetLayoutMode)}
+                className={selectClassName}
               >
-                <option value="16:9">16:9</option>
-                <option value="4:3">4:3</option>
-                <option value="1:1">1:1</option>
+                <option value="horizontal">Horizontal strip</option>
+                <option value="vertical">Vertical strip</option>
+                <option value="grid">Grid (rows × columns)</option>
               </select>
             </div>
 
+            {layoutMode === 'grid' && (
+              <>
+                <div className="flex flex-col gap-3">
+                  <Label htmlFor="grid-columns" className="text-sm font-medium">Columns</Label>
+                  <Input
+                    id="grid-columns"
+                    type="number"
+                    min={1}
+                    step={1}
+                    placeholder="Auto"
+                    value={gridColumns ?? ''}
+                    onChange={(e) => setGridColumns(parseGridCount(e.target.value))}
+                    className="h-10"
+                  />
+                </div>
+
+                <div className="flex flex-col gap-3">
+                  <Label htmlFor="grid-rows" className="text-sm font-medium">Rows</Label>
+                  <Input
+                    id="grid-rows"
+                    type="number"
+                    min={1}
+                    step={1}
+                    placeholder="Auto"
+                    value={gridRows ?? ''}
+                    onChange={(e) => setGridRows(parseGridCount(e.target.value))}
+                    className="h-10"
+                  />
+                </div>
+              </>
+            )}
+
             <div className="flex flex-col gap-3">
-              <Label htmlFor="background-color" className="text-sm font-medium">Background Color</Label>
+              <Label htmlFor="frame-padding" className="text-sm font-medium">Frame Padding (px)</Label>
               <Input
-                id="background-color"
-                type="color"
-                value={backgroundColor}
-                onChange={(e) => setBackgroundColor(e.target.value)}
-                className="h-10 w-full p-1"
-                aria-label="Background color"
+                id="frame-padding"
+                type="number"
+                min={0}
+                max={64}
+                step={1}
+                value={framePadding}
+                onChange={(e) => setFramePadding(Math.min(64, Math.max(0, Math.round(Number(e.target.value) || 0))))}
+                className="h-10"
               />
             </div>
-          </div>
 
-          {/* Lighting Controls */}
-          <div className="space-y-6">
-            <h3 className="text-lg font-medium text-gray-900">Lighting Controls</h3>
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-8">
-              <div className="*:not-first:mt-4">
-                <Label className="text-sm font-medium">
-                  Lighting Intensity: {lightingIntensity.toFixed(1)}x
-                </Label>
-                <Slider
-                  value={[lightingIntensity]}
-                  onValueChange={(value) => setLightingIntensity(value[0])}
-                  min={0.1}
-                  max={3.0}
-                  step={0.1}
-                  aria-label="Lighting intensity slider"
-                />
-              </div>
+            <div className="flex flex-col gap-3">
+              <Label htmlFor="background-mode" className="text-sm font-medium">Background</Label>
+              <select
+                id="background-mode"
+                value={backgroundMode}
+                onChange={(e) => setBackgroundMode(e.target.value as BackgroundMode)}
+                className={selectClassName}
+              >
+                <option value="color">Solid colour</option>
+                <option value="transparent">Transparent</option>
+              </select>
+            </div>
 
-              <div className="*:not-first:mt-4">
-                <Label className="text-sm font-medium">
-                  Ambient Light: {ambientIntensity.toFixed(1)}x
-                </Label>
-                <Slider
-                  value={[ambientIntensity]}
-                  onValueChange={(value) => setAmbientIntensity(value[0])}
-                  min={0.1}
-                  max={2.0}
-                  step={0.1}
-                  aria-label="Ambient light intensity slider"
+            {backgroundMode === 'color' ? (
+              <div className="flex flex-col gap-3">
+                <Label htmlFor="background-color" className="text-sm font-medium">Background Color</Label>
+                <Input
+                  id="background-color"
+                  type="color"
+                  value={backgroundColor}
+                  onChange={(e) => setBackgroundColor(e.target.value)}
+                  className="h-10 w-full p-1"
+                  aria-label="Background color"
                 />
               </div>
-            </div>
+            ) : (
+              <div className="flex flex-col gap-3">
+                <span className="text-sm font-medium">Edges</span>
+                <label className="flex h-10 items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={fringeFix}
+                    onChange={(e) => setFringeFix(e.target.checked)}
+                  />
+                  Fix matte fringe on anti-aliased edges
+                </label>
+              </div>
+            )}
           </div>
 
+          {sheetSizeWarning && (
+            <p className="text-xs text-amber-700" role="alert">{sheetSizeWarning}</p>
+          )}
+
+          <div className="flex flex-col gap-3">
+            <Label htmlFor="source-mode" className="text-sm font-medium">Source</Label>
+            <select
+              id="source-mode"
+              value={sourceMode}
+              onChange={(e) => setSourceMode(e.target.value as SourceMode)}
+              className={selectClassName}
+            >
+              <option value="turntable">Turntable (rotate the model)</option>
+              <option value="animation">Animation clips</option>
+              <option value="directional">Directional sheet (4/8/16 facings)</option>
+            </select>
+          </div>
+
+          {sourceMode === 'animation' ? (
+            <AnimationControls
+              value={animation}
+              onChange={setAnimation}
+              clips={animationClips}
+              hasModel={!!file}
+              isLoading={loadedModel.isLoading}
+              selectClassName={selectClassName}
+            />
+          ) : sourceMode === 'directional' ? (
+            <DirectionalControls
+              value={directional}
+              onChange={setDirectional}
+              animation={animation}
+              onAnimationChange={setAnimation}
+              clips={animationClips}
+              selectClassName={selectClassName}
+            />
+          ) : (
+            <>
+              {/* Rotation Controls */}
+              <div className="space-y-6">
+                <h3 className="text-lg font-medium text-gray-900">Rotation Controls</h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                  <div className="flex flex-col gap-3">
+                    <Label htmlFor="frame-count" className="text-sm font-medium">Number of Frames</Label>
+                    <Input
+                      id="frame-count"
+                      type="number"
+                      min={MIN_FRAME_COUNT}
+                      max={MAX_FRAME_COUNT}
+                      step={1}
+                      value={frameCountDraft}
+                      onChange={(e) => setFrameCountDraft(e.target.value)}
+                      onBlur={commitFrameCount}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          e.preventDefault();
+                          commitFrameCount();
+                        }
+                      }}
+                      className="h-10"
+                    />
+                    <div className="flex gap-2">
+                      {FRAME_COUNT_PRESETS.map((preset) => (
+                        <Button
+                          key={preset}
+                          type="button"
+                          size="sm"
+                          variant={frameCount === preset ? "default" : "outline"}
+                          onClick={() => setFrameCount(preset)}
+                        >
+                          {preset}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="*:not-first:mt-4">
+                    <Label className="text-sm font-medium">
+                      Rotation Arc: {rotationArc[0]}° – {rotationArc[1]}°
+                    </Label>
+                    <Slider
+                      value={rotationArc}
+                      onValueChange={(value) => setRotationArc([value[0], value[1]])}
+                      min={0}
+                      max={360}
+                      step={5}
+                      minStepsBetweenThumbs={1}
+                      aria-label="Rotation start and end angle"
+                    />
+                  </div>
+
+                  <div className="flex flex-col gap-3">
+                    <Label htmlFor="rotation-axis" className="text-sm font-medium">Rotation Axis</Label>
+                    <select
+                      id="rotation-axis"
+                      value={rotationAxis}
+                      onChange={(e) => setRotationAxis(e.target.value as RotationAxis)}
+                      className={selectClassName}
+                    >
+                      <option value="y">Y (turntable)</option>
+                      <option value="x">X (tumble)</option>
+                      <option value="z">Z (roll)</option>
+                    </select>
+                  </div>
+
+                  <div className="flex flex-col gap-3">
+                    <Label htmlFor="rotation-direction" className="text-sm font-medium">Direction</Label>
+                    <select
+                      id="rotation-direction"
+                      value={rotationDirection}
+                      onChange={(e) => setRotationDirection(e.target.value as RotationDirection)}
+                      className={selectClassName}
+                    >
+                      <option value="counterclockwise">Counter-clockwise</option>
+                      <option value="clockwise">Clockwise</option>
+                    </select>
+                  </div>
+                </div>
+              </div>
+            </>
+          )}
+
+          <CameraControls
+            value={camera}
+            onChange={setCamera}
+            aspectRatio={frameDimensions.width / frameDimensions.height}
+            selectClassName={selectClassName}
+          />
+
+          <LightingControls value={lighting} onChange={setLighting} selectClassName={selectClassName} />
+
+          <EnvironmentControls
+            value={environment}
+            onChange={setEnvironment}
+            file={environmentFile}
+            onFileChange={setEnvironmentFile}
+            backgroundMode={backgroundMode}
+            isLoading={environmentMap.isLoading}
+            error={environmentMap.error}
+            selectClassName={selectClassName}
+          />
+
+          <PixelArtControls
+            value={pixelArt}
+            onChange={setPixelArt}
+            frameWidth={frameDimensions.width}
+            frameHeight={frameDimensions.height}
+            selectClassName={selectClassName}
+          />
+
+          <TrimControls value={trim} onChange={setTrim} selectClassName={selectClassName} />
+
+          <CompanionMapControls value={companionMaps} onChange={setCompanionMaps} />
+
           <Button
             type="submit"
-            disabled={isGenerating || !file}
+            disabled={isGenerating || !file || (sourceMode === 'animation' && animation.clips.length === 0)}
           >
             {isGenerating
               ? `Generating... ${Math.round(progress)}%`
@@ -309,25 +881,98 @@ export default function Home() {
             }
           </Button>
 
+          {variantTextures.length > 1 && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleGenerateVariants}
+              disabled={isGenerating || !file || (sourceMode === 'animation' && animation.clips.length === 0)}
+            >
+              Render All Variants ({variantTextures.length})
+            </Button>
+          )}
+
               {error && (
                 <p className="text-red-600 text-sm">{error}</p>
               )}
             </form>
+
+            <BatchGenerationPanel
+              options={generatorOptions}
+              textures={textureSet}
+              materialTextures={materialTextureFiles}
+              environmentFile={customEnvironmentFile}
+              className="mt-8 border-t pt-6"
+            />
           </div>
 
           {/* Viewer Section */}
           <div>
+            <ModelPreview
+              model={loadedModel.model}
+              isLoading={loadedModel.isLoading}
+              loadError={loadedModel.error}
+              environmentMap={environmentMap.texture}
+              settings={settings}
+              onCameraChange={setCamera}
+              className="mb-6"
+            />
 
             {generatedData?.spriteStripUrl ? (
               <>
-                <div
-                  className={`w-full border rounded overflow-hidden ${getAspectRatioClass(generatedData.ratio || '16:9')}`}
-                  style={{ backgroundColor: backgroundColor }}
-                >
-                  <SpriteStripViewer
-                    spriteStripUrl={generatedData.spriteStripUrl}
-                    ratio={generatedData.ratio as '16:9' | '4:3' | '1:1' | 'auto'}
-                  />
+                {generatedStrips.length > 1 && (
+                  <div className="mb-3 flex flex-wrap gap-2" role="group" aria-label="Generated clips">
+                    {generatedStrips.map((strip) => (
+                      <Button
+                        key={strip.id}
+                        type="button"
+                        size="sm"
+                        variant={strip === generatedData ? "default" : "outline"}
+                        onClick={() => showSpriteStrip(strip)}
+                      >
+                        {strip.metadata.variant ? strip.title : strip.metadata.animation?.clip ?? strip.title}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+                <SpriteStripPlayer data={generatedData} selectClassName={selectClassName} />
+                <p className="mt-2 text-xs text-muted-foreground">
+                  {generatedData.metadata.frameCount} frames · {describeSheetSource(generatedData.metadata)}{generatedData.metadata.camera && ` · ${generatedData.metadata.camera.projection} camera at ${generatedData.metadata.camera.elevation}°`} · {generatedData.metadata.layout.columns}×{generatedData.metadata.layout.rows} sheet, {generatedData.metadata.layout.sheetWidth}×{generatedData.metadata.layout.sheetHeight}px
+                </p>
+                {generatedSheetWarning && (
+                  <p className="mt-1 text-xs text-amber-700">{generatedSheetWarning}</p>
+                )}
+                <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="flex flex-col gap-3">
+                    <Label htmlFor="export-format" className="text-sm font-medium">Export Format</Label>
+                    <select
+                      id="export-format"
+                      value={exportFormat}
+                      onChange={(e) => setExportFormat(e.target.value as 'png' | AtlasFormat)}
+                      className={selectClassName}
+                    >
+                      <option value="png">PNG only</option>
+                      {(Object.keys(ATLAS_FORMAT_LABELS) as AtlasFormat[]).map((format) => (
+                        <option key={format} value={format}>
+                          PNG + {ATLAS_FORMAT_LABELS[format]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div className="flex flex-col gap-3">
+                    <Label htmlFor="frame-duration" className="text-sm font-medium">Frame Duration (ms)</Label>
+                    <Input
+                      id="frame-duration"
+                      type="number"
+                      min={1}
+                      step={1}
+                      value={frameDuration}
+                      onChange={(e) => setFrameDuration(Math.max(1, Math.round(Number(e.target.value) || 1)))}
+                      disabled={exportFormat === 'png'}
+                      className="h-10"
+                    />
+                  </div>
                 </div>
                 <div className="mt-4">
                   <Button
@@ -338,6 +983,12 @@ export default function Home() {
                     Download Sprite Strip
                   </Button>
                 </div>
+
+                {variantRuns.length > 0 && (
+                  <VariantComparison runs={variantRuns} className="mt-6 border-t pt-6" />
+                )}
+                <AnimationExportPanel data={generatedData} selectClassName={selectClassName} className="mt-6 border-t pt-6" />
+                <VideoExportPanel data={generatedData} selectClassName={selectClassName} className="mt-6 border-t pt-6" />
               </>
             ) : (
               <div
@@ -352,6 +1003,19 @@ export default function Home() {
             )}
           </div>
         </div>
+
+        <HistoryPanel
+          items={history.items}
+          storage={history.storage}
+          error={history.error}
+          disabled={isGenerating}
+          onOpen={(item) => showSpriteStrip(history.toSpriteStripData(item))}
+          onDownload={(item) => downloadSpriteStrip(history.toSpriteStripData(item))}
+          onRegenerate={handleHistoryRegenerate}
+          onDelete={history.remove}
+          onClear={history.clear}
+          className="mt-10 border-t pt-6"
+        />
       </div>
     </div>
   );
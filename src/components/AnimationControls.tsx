@@ -0,0 +1,181 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import {
+  MAX_FRAME_COUNT,
+  MIN_FRAME_COUNT,
+  getClipFrameTimes,
+  type AnimationClipInfo,
+} from "@/hooks/use-sprite-strip-generator";
+import { SETTINGS_LIMITS } from "@/lib/generation-settings";
+import type { AnimationSampling, AnimationSettings } from "@/types";
+
+interface AnimationControlsProps {
+  value: AnimationSettings;
+  onChange: (animation: AnimationSettings) => void;
+  clips: AnimationClipInfo[];
+  hasModel: boolean;
+  isLoading?: boolean;
+  selectClassName?: string;
+  className?: string;
+}
+
+interface AnimationSamplingFieldsProps {
+  value: AnimationSettings;
+  onChange: (animation: AnimationSettings) => void;
+  selectClassName?: string;
+}
+
+// Sample rate or frame count for clip rendering; shared with the directional sheet controls
+export const AnimationSamplingFields: React.FC<AnimationSamplingFieldsProps> = ({
+  value,
+  onChange,
+  selectClassName = "",
+}) => {
+  const update = (patch: Partial<AnimationSettings>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+      <div className="flex flex-col gap-3">
+        <Label htmlFor="animation-sampling" className="text-sm font-medium">Sampling</Label>
+        <select
+          id="animation-sampling"
+          value={value.sampling}
+          onChange={(e) => update({ sampling: e.target.value as AnimationSampling })}
+          className={selectClassName}
+        >
+          <option value="fps">Frames per second</option>
+          <option value="frames">Fixed frame count</option>
+        </select>
+      </div>
+
+      {value.sampling === 'fps' ? (
+        <div className="*:not-first:mt-4">
+          <Label className="text-sm font-medium">Sample Rate: {value.fps} fps</Label>
+          <Slider
+            value={[value.fps]}
+            onValueChange={(next) => update({ fps: next[0] })}
+            min={SETTINGS_LIMITS.animationFps.min}
+            max={SETTINGS_LIMITS.animationFps.max}
+            step={1}
+            aria-label="Animation sample rate"
+          />
+        </div>
+      ) : (
+        <div className="flex flex-col gap-3">
+          <Label htmlFor="animation-frame-count" className="text-sm font-medium">Frames per Clip</Label>
+          <Input
+            id="animation-frame-count"
+            type="number"
+            min={MIN_FRAME_COUNT}
+            max={MAX_FRAME_COUNT}
+            step={1}
+            value={value.frameCount}
+            onChange={(e) => {
+              const next = Number(e.target.value);
+              if (Number.isFinite(next)) {
+                update({ frameCount: Math.min(MAX_FRAME_COUNT, Math.max(MIN_FRAME_COUNT, Math.round(next))) });
+              }
+            }}
+            className="h-10"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+const AnimationControls: React.FC<AnimationControlsProps> = ({
+  value,
+  onChange,
+  clips,
+  hasModel,
+  isLoading = false,
+  selectClassName = "",
+  className = "",
+}) => {
+  const update = (patch: Partial<AnimationSettings>) => onChange({ ...value, ...patch });
+
+  const toggleClip = (name: string, checked: boolean) => {
+    // Keep the model's clip order so strips always come out in the same sequence
+    const selected = new Set(value.clips);
+    if (checked) selected.add(name);
+    else selected.delete(name);
+    update({
+      clips: [
+        ...clips.map((clip) => clip.name).filter((clipName) => selected.has(clipName)),
+        ...value.clips.filter((clipName) => selected.has(clipName) && !clips.some((clip) => clip.name === clipName)),
+      ],
+    });
+  };
+
+  // Picked in an earlier session or a shared link, but not part of this model
+  const unavailable = hasModel && !isLoading
+    ? value.clips.filter((name) => !clips.some((clip) => clip.name === name))
+    : [];
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      <h3 className="text-lg font-medium text-gray-900">Animation Controls</h3>
+
+      <div className="flex flex-col gap-3">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium">Clips</span>
+          {clips.length > 1 && (
+            <div className="flex gap-2">
+              <Button type="button" size="sm" variant="outline" onClick={() => update({ clips: clips.map((clip) => clip.name) })}>
+                All
+              </Button>
+              <Button type="button" size="sm" variant="outline" onClick={() => update({ clips: [] })}>
+                None
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {!hasModel ? (
+          <p className="text-sm text-muted-foreground">Choose a model to list its animation clips.</p>
+        ) : isLoading ? (
+          <p className="text-sm text-muted-foreground">Reading animation clips...</p>
+        ) : clips.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This model has no animation clips.</p>
+        ) : (
+          <ul className="max-h-48 divide-y overflow-y-auto rounded-lg border text-sm">
+            {clips.map((clip) => (
+              <li key={clip.name}>
+                <label className="flex items-center gap-3 px-3 py-1.5">
+                  <input
+                    type="checkbox"
+                    checked={value.clips.includes(clip.name)}
+                    onChange={(e) => toggleClip(clip.name, e.target.checked)}
+                  />
+                  <span className="min-w-0 flex-1 truncate" title={clip.name}>{clip.name}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {clip.duration.toFixed(2)}s · {getClipFrameTimes(clip.duration, value).length} frames
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {unavailable.length > 0 && (
+          <p className="text-xs text-amber-700" role="alert">
+            Not in this model and skipped: {unavailable.join(', ')}
+          </p>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Each picked clip becomes its own strip, rendered from the camera angle below.
+        </p>
+      </div>
+
+      <AnimationSamplingFields value={value} onChange={onChange} selectClassName={selectClassName} />
+    </div>
+  );
+};
+
+export default AnimationControls;
@@ -0,0 +1,149 @@
+"use client";
+
+import React, { useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import {
+  ANIMATION_FORMATS,
+  encodeAnimation,
+  scaleFrames,
+  type AnimationFormat,
+} from "@/lib/animation-export";
+import { downloadBlob } from "@/lib/download";
+import { extractFrames } from "@/lib/sprite-sheet";
+import type { SpriteStripData } from "@/types";
+
+interface AnimationExportPanelProps {
+  data: SpriteStripData;
+  selectClassName?: string;
+  className?: string;
+}
+
+const SCALE_OPTIONS = [0.25, 0.5, 1];
+
+const AnimationExportPanel: React.FC<AnimationExportPanelProps> = ({ data, selectClassName = "", className = "" }) => {
+  const [fps, setFps] = useState<number>(12);
+  const [loopCount, setLoopCount] = useState<number>(0);
+  const [pingPong, setPingPong] = useState<boolean>(false);
+  const [transparent, setTransparent] = useState<boolean>(false);
+  const [scale, setScale] = useState<number>(0.5);
+  const [encoding, setEncoding] = useState<{ format: AnimationFormat; progress: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: AnimationFormat) => {
+    setError(null);
+    setEncoding({ format, progress: 0 });
+
+    try {
+      const frames = await extractFrames(data.spriteStripUrl, data.metadata.layout, data.frameCount, data.metadata.trim);
+      const blob = await encodeAnimation(format, scaleFrames(frames, scale), {
+        fps,
+        loopCount,
+        pingPong,
+        transparent,
+        // Transparent sheets already carry alpha, so there is nothing to key out
+        keyColor: data.metadata.backgroundMode === 'transparent' ? undefined : data.metadata.backgroundColor,
+        onProgress: (progress) => setEncoding({ format, progress }),
+      });
+      downloadBlob(blob, `${data.title || 'sprite'}.${ANIMATION_FORMATS[format].extension}`);
+    } catch (err) {
+      console.error(`${ANIMATION_FORMATS[format].label} export failed:`, err);
+      setError(err instanceof Error ? err.message : `Failed to export ${ANIMATION_FORMATS[format].label}`);
+    } finally {
+      setEncoding(null);
+    }
+  };
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <h3 className="text-sm font-medium text-gray-700">Animated Preview</h3>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="*:not-first:mt-4">
+          <Label className="text-sm font-medium">FPS: {fps}</Label>
+          <Slider
+            value={[fps]}
+            onValueChange={(value) => setFps(value[0])}
+            min={1}
+            max={60}
+            step={1}
+            aria-label="Animation frames per second"
+          />
+        </div>
+
+        <div className="flex flex-col gap-3">
+          <Label htmlFor="animation-loops" className="text-sm font-medium">Loop Count (0 = forever)</Label>
+          <Input
+            id="animation-loops"
+            type="number"
+            min={0}
+            max={65535}
+            step={1}
+            value={loopCount}
+            onChange={(e) => setLoopCount(Math.min(65535, Math.max(0, Math.round(Number(e.target.value) || 0))))}
+            className="h-10"
+          />
+        </div>
+
+        <div className="flex flex-col gap-3">
+          <Label htmlFor="animation-scale" className="text-sm font-medium">Size</Label>
+          <select
+            id="animation-scale"
+            value={scale}
+            onChange={(e) => setScale(Number(e.target.value))}
+            className={selectClassName}
+          >
+            {SCALE_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option * 100}% ({Math.round(data.metadata.width * option)}×{Math.round(data.metadata.height * option)})
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex flex-col justify-end gap-2">
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={pingPong}
+              onChange={(e) => setPingPong(e.target.checked)}
+            />
+            Ping-pong
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={transparent}
+              onChange={(e) => setTransparent(e.target.checked)}
+            />
+            Transparent GIF background
+          </label>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(ANIMATION_FORMATS) as AnimationFormat[]).map((format) => (
+          <Button
+            key={format}
+            type="button"
+            variant="outline"
+            disabled={encoding !== null}
+            onClick={() => handleExport(format)}
+          >
+            {encoding?.format === format
+              ? `Encoding... ${Math.round(encoding.progress * 100)}%`
+              : `Download ${ANIMATION_FORMATS[format].label}`}
+          </Button>
+        ))}
+      </div>
+
+      {error && (
+        <p className="text-red-600 text-sm">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default AnimationExportPanel;
@@ -0,0 +1,261 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { AlertCircleIcon, BoxIcon, CheckIcon, UploadIcon, XIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { useFileUpload } from "@/hooks/use-file-upload";
+import { createBatchZip, useBatchGenerator, type BatchItem } from "@/hooks/use-batch-generator";
+import type { UseSpriteStripGeneratorOptions } from "@/hooks/use-sprite-strip-generator";
+import { downloadBlob } from "@/lib/download";
+import {
+  MODEL_EXTENSIONS,
+  RESOURCE_EXTENSIONS,
+  isAcceptedUpload,
+  isModelFile,
+  readDroppedEntries,
+} from "@/lib/model-resources";
+import type { TextureSet } from "@/types";
+
+interface BatchGenerationPanelProps {
+  options: UseSpriteStripGeneratorOptions;
+  textures?: TextureSet;
+  materialTextures?: File[];
+  environmentFile?: File;
+  className?: string;
+}
+
+const ACCEPT = [...MODEL_EXTENSIONS, ...RESOURCE_EXTENSIONS].join(",");
+const maxSizeMB = 100;
+const maxFiles = 500;
+
+const statusLabel = (item: BatchItem) => {
+  switch (item.status) {
+    case 'pending':
+      return 'Queued';
+    case 'rendering':
+      return `Rendering... ${Math.round(item.progress)}%`;
+    case 'done': {
+      const results = item.results ?? [];
+      const frames = results.reduce((total, result) => total + result.frameCount, 0);
+      return results.length > 1 ? `${results.length} sheets, ${frames} frames` : `${frames} frames`;
+    }
+    case 'failed':
+      return item.error ?? 'Failed';
+  }
+};
+
+const BatchGenerationPanel: React.FC<BatchGenerationPanelProps> = ({
+  options,
+  textures,
+  materialTextures,
+  environmentFile,
+  className = "",
+}) => {
+  const { items, isRunning, isStopping, enqueue, remove, clear, start, cancel } = useBatchGenerator();
+  const [isZipping, setIsZipping] = useState(false);
+  const [zipError, setZipError] = useState<string | null>(null);
+
+  const [
+    { files, isDragging, errors },
+    {
+      addFiles,
+      handleDragEnter,
+      handleDragLeave,
+      handleDragOver,
+      handleDrop,
+      openFileDialog,
+      removeFile,
+      clearFiles,
+      getInputProps,
+    },
+  ] = useFileUpload({
+    accept: ACCEPT,
+    maxSize: maxSizeMB * 1024 * 1024,
+    multiple: true,
+    maxFiles,
+    onFilesAdded: (added) => {
+      // Companion files are not queued; each model picks its own when it renders
+      enqueue(
+        added
+          .filter((f) => f.file instanceof File && isModelFile(f.file))
+          .map((f) => ({ id: f.id, file: f.file as File }))
+      );
+    },
+  });
+
+  const resourceFiles = useMemo(
+    () => files.map((f) => f.file).filter((file): file is File => file instanceof File && !isModelFile(file)),
+    [files]
+  );
+
+  const doneCount = items.filter((item) => item.status === 'done').length;
+  const failedCount = items.filter((item) => item.status === 'failed').length;
+  const remainingCount = items.length - doneCount;
+
+  const handleRemove = (id: string) => {
+    removeFile(id);
+    remove(id);
+  };
+
+  const handleClear = () => {
+    clearFiles();
+    clear();
+  };
+
+  // Folders only arrive as entries; plain files go through the hook as usual
+  const handleZoneDrop = (e: React.DragEvent<HTMLElement>) => {
+    const entries = Array.from(e.dataTransfer.items)
+      .map((item) => item.webkitGetAsEntry?.())
+      .filter((entry): entry is FileSystemEntry => !!entry);
+
+    if (!entries.some((entry) => entry.isDirectory)) {
+      handleDrop(e);
+      return;
+    }
+
+    e.preventDefault();
+    handleDragLeave(e);
+    readDroppedEntries(entries)
+      .then((dropped) => addFiles(dropped.filter(isAcceptedUpload)))
+      .catch((err) => console.error('Failed to read dropped folder:', err));
+  };
+
+  const handleDownloadZip = async () => {
+    setZipError(null);
+    setIsZipping(true);
+    try {
+      downloadBlob(await createBatchZip(items), 'sprite-strips.zip');
+    } catch (err) {
+      console.error('Batch ZIP export failed:', err);
+      setZipError(err instanceof Error ? err.message : 'Failed to pack the ZIP');
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900">Batch Generation</h3>
+        {items.length > 0 && (
+          <button
+            type="button"
+            onClick={handleClear}
+            disabled={isRunning}
+            className="text-xs text-red-600 hover:text-red-800 disabled:opacity-50"
+          >
+            Clear All
+          </button>
+        )}
+      </div>
+
+      <div
+        onDragEnter={handleDragEnter}
+        onDragLeave={handleDragLeave}
+        onDragOver={handleDragOver}
+        onDrop={handleZoneDrop}
+        data-dragging={isDragging || undefined}
+        className="relative flex min-h-32 flex-col items-center justify-center overflow-hidden rounded-xl border border-dashed border-input p-4 transition-colors has-[input:focus]:border-ring has-[input:focus]:ring-[3px] has-[input:focus]:ring-ring/50 data-[dragging=true]:bg-accent/50"
+      >
+        <input
+          {...getInputProps()}
+          className="sr-only"
+          aria-label="Upload model files for batch generation"
+        />
+        <div className="flex flex-col items-center justify-center px-4 py-3 text-center">
+          <div
+            className="mb-2 flex size-11 shrink-0 items-center justify-center rounded-full border bg-background"
+            aria-hidden="true"
+          >
+            <BoxIcon className="size-4 opacity-60" />
+          </div>
+          <p className="mb-1.5 text-sm font-medium">Drop several models or their folders here</p>
+          <p className="text-xs text-muted-foreground">
+            GLTF, GLB, FBX, OBJ with their .bin, .mtl and textures (max. {maxSizeMB}MB each, rendered with the current settings)
+          </p>
+          <Button variant="outline" className="mt-4" onClick={openFileDialog} type="button">
+            <UploadIcon className="-ms-1 opacity-60" aria-hidden="true" />
+            Select models
+          </Button>
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <div
+          className="flex items-center gap-1 text-xs text-destructive"
+          role="alert"
+        >
+          <AlertCircleIcon className="size-3 shrink-0" />
+          <span>{errors[0]}</span>
+        </div>
+      )}
+
+      {items.length > 0 && (
+        <>
+          <ul className="divide-y rounded-lg border text-sm">
+            {items.map((item) => (
+              <li key={item.id} className="flex items-center gap-3 px-3 py-2">
+                <span className="flex size-5 shrink-0 items-center justify-center" aria-hidden="true">
+                  {item.status === 'done' && <CheckIcon className="size-4 text-green-600" />}
+                  {item.status === 'failed' && <AlertCircleIcon className="size-4 text-destructive" />}
+                </span>
+                <span className="min-w-0 flex-1 truncate">{item.file.name}</span>
+                <span
+                  className={`max-w-[50%] truncate text-xs ${item.status === 'failed' ? 'text-destructive' : 'text-muted-foreground'}`}
+                  title={item.error}
+                >
+                  {statusLabel(item)}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => handleRemove(item.id)}
+                  disabled={isRunning}
+                  className="text-muted-foreground hover:text-foreground disabled:opacity-50"
+                  aria-label={`Remove ${item.file.name}`}
+                >
+                  <XIcon className="size-3.5" />
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <Label className="text-xs text-muted-foreground">
+            {doneCount}/{items.length} done{failedCount > 0 ? `, ${failedCount} failed` : ''}
+            {resourceFiles.length > 0 && ` · ${resourceFiles.length} companion file${resourceFiles.length === 1 ? '' : 's'}`}
+          </Label>
+
+          <div className="flex flex-wrap gap-2">
+            {isRunning ? (
+              <Button type="button" variant="outline" onClick={cancel} disabled={isStopping}>
+                {isStopping ? 'Stopping...' : 'Stop'}
+              </Button>
+            ) : (
+              <Button
+                type="button"
+                onClick={() => start(items, options, { textures, materialTextures, environmentFile }, resourceFiles)}
+                disabled={remainingCount === 0}
+              >
+                Generate {remainingCount} model{remainingCount === 1 ? '' : 's'}
+              </Button>
+            )}
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleDownloadZip}
+              disabled={doneCount === 0 || isRunning || isZipping}
+            >
+              {isZipping ? 'Packing ZIP...' : 'Download All (ZIP)'}
+            </Button>
+          </div>
+
+          {zipError && (
+            <p className="text-red-600 text-sm">{zipError}</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BatchGenerationPanel;
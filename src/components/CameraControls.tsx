@@ -0,0 +1,166 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { getCameraDistance } from "@/hooks/use-sprite-strip-generator";
+import { SETTINGS_LIMITS } from "@/lib/generation-settings";
+import type { CameraProjection, CameraSettings } from "@/types";
+
+interface CameraControlsProps {
+  value: CameraSettings;
+  onChange: (camera: CameraSettings) => void;
+  aspectRatio: number;
+  selectClassName?: string;
+  className?: string;
+}
+
+// 30° is the common 2:1 "isometric" used for pixel art; 35.26° is true isometric
+const ELEVATION_PRESETS = [
+  { label: 'Side', value: 0 },
+  { label: 'Game iso', value: 30 },
+  { label: 'True iso', value: 35.26 },
+  { label: 'Top-down', value: 90 },
+];
+
+const CameraControls: React.FC<CameraControlsProps> = ({
+  value,
+  onChange,
+  aspectRatio,
+  selectClassName = "",
+  className = "",
+}) => {
+  const update = (patch: Partial<CameraSettings>) => onChange({ ...value, ...patch });
+  const isOrthographic = value.projection === 'orthographic';
+  const autoFit = value.distance === undefined;
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      <h3 className="text-lg font-medium text-gray-900">Camera Controls</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+        <div className="flex flex-col gap-3">
+          <Label htmlFor="camera-projection" className="text-sm font-medium">Projection</Label>
+          <select
+            id="camera-projection"
+            value={value.projection}
+            onChange={(e) => update({ projection: e.target.value as CameraProjection })}
+            className={selectClassName}
+          >
+            <option value="perspective">Perspective</option>
+            <option value="orthographic">Orthographic</option>
+          </select>
+        </div>
+
+        <div className="*:not-first:mt-4">
+          <Label className="text-sm font-medium">Elevation: {value.elevation}°</Label>
+          <Slider
+            value={[value.elevation]}
+            onValueChange={(next) => update({ elevation: next[0] })}
+            min={SETTINGS_LIMITS.elevation.min}
+            max={SETTINGS_LIMITS.elevation.max}
+            step={1}
+            aria-label="Camera elevation angle"
+          />
+          <div className="flex flex-wrap gap-2">
+            {ELEVATION_PRESETS.map((preset) => (
+              <Button
+                key={preset.label}
+                type="button"
+                size="sm"
+                variant={value.elevation === preset.value ? "default" : "outline"}
+                onClick={() => update({ elevation: preset.value })}
+              >
+                {preset.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="*:not-first:mt-4">
+          <Label className="text-sm font-medium">Azimuth: {value.azimuth}°</Label>
+          <Slider
+            value={[value.azimuth]}
+            onValueChange={(next) => update({ azimuth: next[0] })}
+            min={SETTINGS_LIMITS.azimuth.min}
+            max={SETTINGS_LIMITS.azimuth.max}
+            step={1}
+            aria-label="Camera azimuth angle"
+          />
+        </div>
+
+        {isOrthographic ? (
+          <div className="*:not-first:mt-4">
+            <Label className="text-sm font-medium">Ortho Zoom: {value.orthoZoom.toFixed(2)}x</Label>
+            <Slider
+              value={[value.orthoZoom]}
+              onValueChange={(next) => update({ orthoZoom: next[0] })}
+              min={SETTINGS_LIMITS.orthoZoom.min}
+              max={SETTINGS_LIMITS.orthoZoom.max}
+              step={0.05}
+              aria-label="Orthographic zoom"
+            />
+          </div>
+        ) : (
+          <div className="*:not-first:mt-4">
+            <Label className="text-sm font-medium">Field of View: {value.fov}°</Label>
+            <Slider
+              value={[value.fov]}
+              onValueChange={(next) => update({ fov: next[0] })}
+              min={SETTINGS_LIMITS.fov.min}
+              max={SETTINGS_LIMITS.fov.max}
+              step={1}
+              aria-label="Camera field of view"
+            />
+          </div>
+        )}
+
+        {isOrthographic || autoFit ? (
+          <div className="*:not-first:mt-4">
+            <Label className="text-sm font-medium">
+              Fit Padding: {Math.round(value.fitPadding * 100)}%
+            </Label>
+            <Slider
+              value={[value.fitPadding]}
+              onValueChange={(next) => update({ fitPadding: next[0] })}
+              min={SETTINGS_LIMITS.fitPadding.min}
+              max={SETTINGS_LIMITS.fitPadding.max}
+              step={0.05}
+              aria-label="Auto-fit padding"
+            />
+          </div>
+        ) : (
+          <div className="*:not-first:mt-4">
+            <Label className="text-sm font-medium">Distance: {value.distance?.toFixed(1)}</Label>
+            <Slider
+              value={[value.distance ?? SETTINGS_LIMITS.distance.min]}
+              onValueChange={(next) => update({ distance: next[0] })}
+              min={SETTINGS_LIMITS.distance.min}
+              max={SETTINGS_LIMITS.distance.max}
+              step={0.1}
+              aria-label="Camera distance"
+            />
+          </div>
+        )}
+
+        {!isOrthographic && (
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={autoFit}
+              onChange={(e) => update({
+                // Start manual distance from where auto-fit put the camera
+                distance: e.target.checked
+                  ? undefined
+                  : Math.round(getCameraDistance(value, aspectRatio) * 10) / 10,
+              })}
+            />
+            Auto-fit distance to the model
+          </label>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CameraControls;
@@ -0,0 +1,47 @@
+"use client";
+
+import React from "react";
+import { COMPANION_MAPS, COMPANION_MAP_LABELS } from "@/lib/companion-maps";
+import type { CompanionMap } from "@/types";
+
+interface CompanionMapControlsProps {
+  value: CompanionMap[];
+  onChange: (maps: CompanionMap[]) => void;
+  className?: string;
+}
+
+const DESCRIPTIONS: Record<CompanionMap, string> = {
+  normal: 'view-space normals for 2D dynamic lighting',
+  depth: 'linear distance from the camera, nearest in white',
+  id: 'a flat colour per material',
+};
+
+const CompanionMapControls: React.FC<CompanionMapControlsProps> = ({ value, onChange, className = "" }) => {
+  // Kept in a fixed order, so links and exports do not depend on the click order
+  const toggle = (map: CompanionMap, checked: boolean) =>
+    onChange(COMPANION_MAPS.filter((entry) => (entry === map ? checked : value.includes(entry))));
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <h3 className="text-lg font-medium text-gray-900">Companion Maps</h3>
+      <div className="flex flex-col gap-2">
+        {COMPANION_MAPS.map((map) => (
+          <label key={map} className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={value.includes(map)}
+              onChange={(e) => toggle(map, e.target.checked)}
+            />
+            {COMPANION_MAP_LABELS[map]}
+            <span className="text-xs text-muted-foreground">({DESCRIPTIONS[map]})</span>
+          </label>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Each map is a strip of its own with the same camera, frames and layout as the colour strip, downloaded alongside it as title_normal.png and so on. A .maps.json describes the encoding: the depth range in scene units and the colour of every ID.
+      </p>
+    </div>
+  );
+};
+
+export default CompanionMapControls;
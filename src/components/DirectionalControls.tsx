@@ -0,0 +1,81 @@
+"use client";
+
+import React from "react";
+import { Label } from "@/components/ui/label";
+import { AnimationSamplingFields } from "@/components/AnimationControls";
+import { getClipFrameTimes, type AnimationClipInfo } from "@/hooks/use-sprite-strip-generator";
+import { DIRECTION_COUNTS, getSheetDirections } from "@/lib/directions";
+import type { AnimationSettings, DirectionCount, DirectionalSettings } from "@/types";
+
+interface DirectionalControlsProps {
+  value: DirectionalSettings;
+  onChange: (directional: DirectionalSettings) => void;
+  animation: AnimationSettings;
+  onAnimationChange: (animation: AnimationSettings) => void;
+  clips: AnimationClipInfo[];
+  selectClassName?: string;
+  className?: string;
+}
+
+const DirectionalControls: React.FC<DirectionalControlsProps> = ({
+  value,
+  onChange,
+  animation,
+  onAnimationChange,
+  clips,
+  selectClassName = "",
+  className = "",
+}) => {
+  const clip = clips.find((entry) => entry.name === value.clip);
+  const framesPerRow = clip ? getClipFrameTimes(clip.duration, animation).length : 1;
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      <h3 className="text-lg font-medium text-gray-900">Directional Sheet</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+        <div className="flex flex-col gap-3">
+          <Label htmlFor="direction-count" className="text-sm font-medium">Directions</Label>
+          <select
+            id="direction-count"
+            value={value.directions}
+            onChange={(e) => onChange({ ...value, directions: Number(e.target.value) as DirectionCount })}
+            className={selectClassName}
+          >
+            {DIRECTION_COUNTS.map((count) => (
+              <option key={count} value={count}>{count} directions</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex flex-col gap-3">
+          <Label htmlFor="direction-clip" className="text-sm font-medium">Animation Clip</Label>
+          <select
+            id="direction-clip"
+            value={value.clip ?? ''}
+            onChange={(e) => onChange({ ...value, clip: e.target.value || undefined })}
+            className={selectClassName}
+          >
+            <option value="">None (rest pose)</option>
+            {clips.map((entry) => (
+              <option key={entry.name} value={entry.name}>{entry.name}</option>
+            ))}
+            {value.clip && !clip && (
+              <option value={value.clip}>{value.clip} (not in this model)</option>
+            )}
+          </select>
+        </div>
+      </div>
+
+      {value.clip && (
+        <AnimationSamplingFields value={animation} onChange={onAnimationChange} selectClassName={selectClassName} />
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Rows, top to bottom: {getSheetDirections(value.directions).map((direction) => direction.name).join(', ')}
+        {' '}· {framesPerRow} frame{framesPerRow === 1 ? '' : 's'} per row. South faces the camera.
+      </p>
+    </div>
+  );
+};
+
+export default DirectionalControls;
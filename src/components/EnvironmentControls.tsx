@@ -0,0 +1,174 @@
+"use client";
+
+import React from "react";
+import { AlertCircleIcon, GlobeIcon, UploadIcon, XIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { useFileUpload } from "@/hooks/use-file-upload";
+import { BUILT_IN_ENVIRONMENTS, ENVIRONMENT_EXTENSIONS } from "@/lib/environment";
+import { SETTINGS_LIMITS } from "@/lib/generation-settings";
+import type { BackgroundMode, EnvironmentMap, EnvironmentSettings } from "@/types";
+
+interface EnvironmentControlsProps {
+  value: EnvironmentSettings;
+  onChange: (environment: EnvironmentSettings) => void;
+  file: File | null; // the uploaded map behind 'custom'
+  onFileChange: (file: File | null) => void;
+  backgroundMode: BackgroundMode;
+  isLoading?: boolean;
+  error?: string | null;
+  selectClassName?: string;
+  className?: string;
+}
+
+const MAX_SIZE_MB = 50;
+
+const EnvironmentControls: React.FC<EnvironmentControlsProps> = ({
+  value,
+  onChange,
+  file,
+  onFileChange,
+  backgroundMode,
+  isLoading = false,
+  error = null,
+  selectClassName = "",
+  className = "",
+}) => {
+  const update = (patch: Partial<EnvironmentSettings>) => onChange({ ...value, ...patch });
+
+  const [
+    { isDragging, errors },
+    { handleDragEnter, handleDragLeave, handleDragOver, handleDrop, openFileDialog, clearFiles, getInputProps },
+  ] = useFileUpload({
+    accept: ENVIRONMENT_EXTENSIONS.join(','),
+    maxSize: MAX_SIZE_MB * 1024 * 1024,
+    onFilesAdded: ([added]) => {
+      onFileChange(added.file as File);
+      onChange({ ...value, map: 'custom' });
+    },
+  });
+
+  const handleRemove = () => {
+    clearFiles();
+    onFileChange(null);
+    if (value.map === 'custom') update({ map: 'none' });
+  };
+
+  const isActive = value.map !== 'none';
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      <h3 className="text-lg font-medium text-gray-900">Environment</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-8">
+        <div className="flex flex-col gap-3">
+          <Label htmlFor="environment-map" className="text-sm font-medium">Environment Map</Label>
+          <select
+            id="environment-map"
+            value={value.map}
+            onChange={(e) => update({ map: e.target.value as EnvironmentMap })}
+            className={selectClassName}
+          >
+            <option value="none">None (lights only)</option>
+            {BUILT_IN_ENVIRONMENTS.map((environment) => (
+              <option key={environment.id} value={environment.id}>{environment.name}</option>
+            ))}
+            <option value="custom">{file ? `Uploaded: ${file.name}` : 'Uploaded map'}</option>
+          </select>
+        </div>
+
+        <div
+          onDragEnter={handleDragEnter}
+          onDragLeave={handleDragLeave}
+          onDragOver={handleDragOver}
+          onDrop={handleDrop}
+          data-dragging={isDragging || undefined}
+          className="flex items-center gap-3 rounded-xl border border-dashed border-input p-3 transition-colors has-[input:focus]:border-ring has-[input:focus]:ring-[3px] has-[input:focus]:ring-ring/50 data-[dragging=true]:bg-accent/50"
+        >
+          <input {...getInputProps()} className="sr-only" aria-label="Upload environment map" />
+          <div
+            className="flex size-9 shrink-0 items-center justify-center rounded-full border bg-background"
+            aria-hidden="true"
+          >
+            <GlobeIcon className="size-4 opacity-60" />
+          </div>
+          <div className="min-w-0 flex-1">
+            <p className="truncate text-sm font-medium" title={file?.name}>
+              {file ? file.name : 'Drop an environment map'}
+            </p>
+            <p className="text-xs text-muted-foreground">HDR, EXR, or equirectangular PNG/JPG</p>
+          </div>
+          {file ? (
+            <Button type="button" size="icon" variant="ghost" onClick={handleRemove} aria-label="Remove environment map">
+              <XIcon aria-hidden="true" />
+            </Button>
+          ) : (
+            <Button type="button" size="sm" variant="outline" onClick={openFileDialog}>
+              <UploadIcon className="-ms-1 opacity-60" aria-hidden="true" />
+              Select
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {(errors.length > 0 || error) && (
+        <div className="flex items-center gap-1 text-xs text-destructive" role="alert">
+          <AlertCircleIcon className="size-3 shrink-0" />
+          <span>{errors[0] ?? error}</span>
+        </div>
+      )}
+      {value.map === 'custom' && !file && (
+        <p className="text-xs text-amber-700">Upload a map to light the model with it; until then only the lights are used.</p>
+      )}
+
+      {isActive && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-8">
+          <div className="*:not-first:mt-4">
+            <Label className="text-sm font-medium">
+              Intensity: {value.intensity.toFixed(1)}x{isLoading ? ' (loading...)' : ''}
+            </Label>
+            <Slider
+              value={[value.intensity]}
+              onValueChange={(next) => update({ intensity: next[0] })}
+              min={SETTINGS_LIMITS.environmentIntensity.min}
+              max={SETTINGS_LIMITS.environmentIntensity.max}
+              step={0.1}
+              aria-label="Environment intensity slider"
+            />
+          </div>
+
+          <div className="*:not-first:mt-4">
+            <Label className="text-sm font-medium">Rotation: {value.rotation}°</Label>
+            <Slider
+              value={[value.rotation]}
+              onValueChange={(next) => update({ rotation: next[0] })}
+              min={SETTINGS_LIMITS.environmentRotation.min}
+              max={SETTINGS_LIMITS.environmentRotation.max}
+              step={1}
+              aria-label="Environment rotation slider"
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={value.showBackground}
+              onChange={(e) => update({ showBackground: e.target.checked })}
+              disabled={backgroundMode === 'transparent'}
+            />
+            Show as background
+            {backgroundMode === 'transparent' && (
+              <span className="text-xs text-muted-foreground">(colour background only)</span>
+            )}
+          </label>
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        The map lights the model and shows in its reflections, on top of the light rig. It turns with the camera, so the model spins under a fixed environment.
+      </p>
+    </div>
+  );
+};
+
+export default EnvironmentControls;
@@ -0,0 +1,147 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RATIO_DIMENSIONS, type PresetRatio } from "@/hooks/use-sprite-strip-generator";
+import { SETTINGS_LIMITS } from "@/lib/generation-settings";
+import type { AspectRatio, FrameSize } from "@/types";
+
+interface FrameSizeControlsProps {
+  ratio: AspectRatio;
+  onRatioChange: (ratio: AspectRatio) => void;
+  frameSize: FrameSize;
+  onFrameSizeChange: (frameSize: FrameSize) => void;
+  selectClassName?: string;
+  className?: string;
+}
+
+// "21:9", "3x4" or "256/128"
+const RATIO_PATTERN = /^\s*(\d+(?:\.\d+)?)\s*[:x×/]\s*(\d+(?:\.\d+)?)\s*$/i;
+
+const clampSize = (value: number) =>
+  Math.min(SETTINGS_LIMITS.frameSize.max, Math.max(SETTINGS_LIMITS.frameSize.min, Math.round(value)));
+
+const greatestCommonDivisor = (a: number, b: number): number => (b === 0 ? a : greatestCommonDivisor(b, a % b));
+
+const formatRatio = ({ width, height }: FrameSize) => {
+  const divisor = greatestCommonDivisor(width, height) || 1;
+  return `${width / divisor}:${height / divisor}`;
+};
+
+// Keeps what is typed until the field is left, so partial numbers are not clamped
+// mid-edit. Text the owner rejects snaps back to the current value.
+const DraftInput: React.FC<{
+  id: string;
+  value: string;
+  onCommit: (text: string) => void;
+  placeholder?: string;
+  inputMode?: React.HTMLAttributes<HTMLInputElement>['inputMode'];
+}> = ({ id, value, onCommit, placeholder, inputMode }) => {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const commit = () => {
+    setDraft(value);
+    onCommit(draft);
+  };
+
+  return (
+    <Input
+      id={id}
+      value={draft}
+      placeholder={placeholder}
+      inputMode={inputMode}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          commit();
+        }
+      }}
+      className="h-10"
+    />
+  );
+};
+
+const FrameSizeControls: React.FC<FrameSizeControlsProps> = ({
+  ratio,
+  onRatioChange,
+  frameSize,
+  onFrameSizeChange,
+  selectClassName = "",
+  className = "",
+}) => {
+  const isAuto = ratio === 'auto';
+  const isSized = ratio === 'custom' || isAuto;
+
+  const commitSize = (side: keyof FrameSize) => (text: string) => {
+    const value = Number(text);
+    if (text.trim() === '' || !Number.isFinite(value)) return;
+    onFrameSizeChange({ ...frameSize, [side]: clampSize(value) });
+  };
+
+  // A typed ratio keeps the width and sets the height to match
+  const commitRatio = (text: string) => {
+    const match = RATIO_PATTERN.exec(text);
+    const ratioWidth = match ? Number(match[1]) : 0;
+    const ratioHeight = match ? Number(match[2]) : 0;
+    if (ratioWidth <= 0 || ratioHeight <= 0) return;
+    onFrameSizeChange({ ...frameSize, height: clampSize((frameSize.width * ratioHeight) / ratioWidth) });
+  };
+
+  return (
+    <div className={`flex flex-col gap-3 ${className}`}>
+      <Label htmlFor="aspect-ratio" className="text-sm font-medium">Aspect Ratio</Label>
+      <select
+        id="aspect-ratio"
+        value={ratio}
+        onChange={(e) => onRatioChange(e.target.value as AspectRatio)}
+        className={selectClassName}
+      >
+        {(Object.keys(RATIO_DIMENSIONS) as PresetRatio[]).map((preset) => (
+          <option key={preset} value={preset}>
+            {preset} ({RATIO_DIMENSIONS[preset].width}×{RATIO_DIMENSIONS[preset].height})
+          </option>
+        ))}
+        <option value="custom">Custom size</option>
+        <option value="auto">Auto (fit the model)</option>
+      </select>
+
+      {isSized && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="frame-width" className="text-xs font-medium">{isAuto ? 'Max Width (px)' : 'Width (px)'}</Label>
+            <DraftInput id="frame-width" value={String(frameSize.width)} onCommit={commitSize('width')} inputMode="numeric" />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="frame-height" className="text-xs font-medium">{isAuto ? 'Max Height (px)' : 'Height (px)'}</Label>
+            <DraftInput id="frame-height" value={String(frameSize.height)} onCommit={commitSize('height')} inputMode="numeric" />
+          </div>
+          {!isAuto && (
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="frame-ratio" className="text-xs font-medium">Ratio (W:H)</Label>
+              <DraftInput id="frame-ratio" value={formatRatio(frameSize)} onCommit={commitRatio} placeholder="e.g. 21:9" />
+            </div>
+          )}
+        </div>
+      )}
+
+      {isAuto ? (
+        <p className="text-xs text-muted-foreground">
+          Each frame takes the shape of the model&apos;s outline over every frame, as large as fits {frameSize.width}×{frameSize.height}px. Camera padding is kept around the outline; the preview shows the largest frame.
+        </p>
+      ) : ratio === 'custom' && (
+        <p className="text-xs text-muted-foreground">
+          Type a ratio to keep the width and fit the height to it. Sizes run from {SETTINGS_LIMITS.frameSize.min} to {SETTINGS_LIMITS.frameSize.max}px.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default FrameSizeControls;
@@ -0,0 +1,131 @@
+"use client";
+
+import React from "react";
+import { DownloadIcon, FolderOpenIcon, RefreshCwIcon, Trash2Icon } from "lucide-react";
+import SpriteStripViewer from "@/components/SpriteStripViewer";
+import { Button } from "@/components/ui/button";
+import { formatBytes } from "@/hooks/use-file-upload";
+import type { HistoryItem } from "@/hooks/use-generation-history";
+import { getPreviewBackground } from "@/lib/preview-background";
+
+interface HistoryPanelProps {
+  items: HistoryItem[];
+  storage: { usage: number; quota: number } | null;
+  error?: string | null;
+  disabled?: boolean;
+  onOpen: (item: HistoryItem) => void;
+  onDownload: (item: HistoryItem) => void;
+  onRegenerate: (item: HistoryItem) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+  className?: string;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  items,
+  storage,
+  error,
+  disabled = false,
+  onOpen,
+  onDownload,
+  onRegenerate,
+  onDelete,
+  onClear,
+  className = "",
+}) => {
+  const historySize = items.reduce((sum, item) => sum + item.size, 0);
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <h2 className="text-lg font-medium text-gray-900">History ({items.length})</h2>
+        <div className="flex items-center gap-4 text-xs text-muted-foreground">
+          <span>
+            {formatBytes(historySize)} in history
+            {storage && storage.quota > 0 && (
+              <> · {formatBytes(storage.usage)} of {formatBytes(storage.quota)} browser storage used</>
+            )}
+          </span>
+          {items.length > 0 && (
+            <button
+              type="button"
+              onClick={onClear}
+              className="text-red-600 hover:text-red-800"
+            >
+              Clear All
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-red-600 text-sm">{error}</p>
+      )}
+
+      {items.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Generated sprite strips are saved here in your browser.</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          {items.map((item) => {
+            const { entry } = item;
+            return (
+              <div key={entry.id} className="rounded-lg border p-3 space-y-3">
+                <div
+                  className="rounded overflow-hidden border"
+                  style={getPreviewBackground(entry.data.metadata)}
+                >
+                  <SpriteStripViewer
+                    spriteStripUrl={item.imageUrl}
+                    companionUrls={item.companionUrls}
+                    frameCount={entry.data.frameCount}
+                    layout={entry.data.metadata.layout}
+                    trim={entry.data.metadata.trim}
+                    pixelated={entry.data.metadata.pixelScale !== undefined}
+                    ratio={entry.data.ratio}
+                  />
+                </div>
+                <div>
+                  <p className="truncate text-sm font-medium" title={entry.title}>{entry.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(entry.createdAt).toLocaleString()} · {entry.data.frameCount} frames · {formatBytes(item.size)}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  <Button type="button" size="sm" variant="outline" onClick={() => onOpen(item)}>
+                    <FolderOpenIcon aria-hidden="true" />
+                    Open
+                  </Button>
+                  <Button type="button" size="sm" variant="outline" onClick={() => onDownload(item)} aria-label={`Download ${entry.title}`}>
+                    <DownloadIcon aria-hidden="true" />
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onRegenerate(item)}
+                    disabled={disabled || !entry.model}
+                    title={entry.model ? 'Re-generate with the same settings' : 'The source model was not stored'}
+                    aria-label={`Re-generate ${entry.title}`}
+                  >
+                    <RefreshCwIcon aria-hidden="true" />
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onDelete(entry.id)}
+                    aria-label={`Delete ${entry.title}`}
+                  >
+                    <Trash2Icon aria-hidden="true" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,379 @@
+"use client";
+
+import React, { useState } from "react";
+import { PlusIcon, SunIcon, XIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { SETTINGS_LIMITS } from "@/lib/generation-settings";
+import {
+  LIGHT_RIG_PRESETS,
+  LIGHT_TYPES,
+  LIGHT_TYPE_LABELS,
+  MAX_LIGHTS,
+  createLight,
+} from "@/lib/lighting";
+import type { GenerationSettings, LightSettings, LightType } from "@/types";
+
+type Lighting = GenerationSettings['lighting'];
+type Position = LightSettings['position'];
+
+interface LightingControlsProps {
+  value: Lighting;
+  onChange: (lighting: Lighting) => void;
+  selectClassName?: string;
+  className?: string;
+}
+
+// Half the width of the position pad in scene units; the model is about 1.7 across
+const PAD_RANGE = 5;
+const PAD_SIZE = 176;
+
+const clampPosition = (value: number) =>
+  Math.min(SETTINGS_LIMITS.lightPosition.max, Math.max(SETTINGS_LIMITS.lightPosition.min, Math.round(value * 10) / 10));
+
+interface LightPositionPadProps {
+  lights: LightSettings[];
+  selected: number;
+  onMove: (position: Position) => void;
+}
+
+/**
+ * Top-left is up and to the left of the model as seen through the camera.
+ * Dragging moves the selected light across the view; lights behind the
+ * model are drawn hollow.
+ */
+function LightPositionPad({ lights, selected, onMove }: LightPositionPadProps) {
+  const toPad = (value: number) => ((value / PAD_RANGE) * PAD_SIZE) / 2;
+
+  const handlePointer = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (e.type === 'pointermove' && e.buttons === 0) return;
+    const light = lights[selected];
+    if (!light) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width - 0.5) * 2 * PAD_RANGE;
+    const y = -((e.clientY - rect.top) / rect.height - 0.5) * 2 * PAD_RANGE;
+    onMove({ ...light.position, x: clampPosition(x), y: clampPosition(y) });
+  };
+
+  return (
+    <svg
+      viewBox={`${-PAD_SIZE / 2} ${-PAD_SIZE / 2} ${PAD_SIZE} ${PAD_SIZE}`}
+      width={PAD_SIZE}
+      height={PAD_SIZE}
+      className="shrink-0 touch-none cursor-crosshair rounded-lg border bg-gray-50"
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        handlePointer(e);
+      }}
+      onPointerMove={handlePointer}
+      role="img"
+      aria-label="Light positions as seen from the camera"
+    >
+      <line x1={-PAD_SIZE / 2} y1={0} x2={PAD_SIZE / 2} y2={0} className="stroke-gray-200" />
+      <line x1={0} y1={-PAD_SIZE / 2} x2={0} y2={PAD_SIZE / 2} className="stroke-gray-200" />
+      <circle r={toPad(0.85)} className="fill-gray-300" />
+      {lights.map((light, index) => {
+        const cx = toPad(light.position.x);
+        const cy = -toPad(light.position.y);
+        const isSelected = index === selected;
+        const isBehind = light.position.z < 0;
+        return (
+          <g key={index} opacity={isSelected ? 1 : 0.5}>
+            {light.type !== 'point' && (
+              <line x1={cx} y1={cy} x2={0} y2={0} stroke={light.color} strokeDasharray={isBehind ? '3 3' : undefined} />
+            )}
+            <circle
+              cx={cx}
+              cy={cy}
+              r={isSelected ? 7 : 5}
+              fill={isBehind ? 'white' : light.color}
+              stroke={isSelected ? 'black' : light.color}
+              strokeWidth={2}
+            />
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+const LightingControls: React.FC<LightingControlsProps> = ({
+  value,
+  onChange,
+  selectClassName = "",
+  className = "",
+}) => {
+  const [selected, setSelected] = useState(0);
+  const [presetId, setPresetId] = useState('');
+  const selectedIndex = Math.min(selected, value.lights.length - 1);
+  const light = value.lights[selectedIndex];
+
+  const setLights = (lights: LightSettings[]) => onChange({ ...value, lights });
+  const updateLight = (patch: Partial<LightSettings>) =>
+    setLights(value.lights.map((entry, index) => (index === selectedIndex ? { ...entry, ...patch } : entry)));
+
+  const addLight = (type: LightType) => {
+    setLights([...value.lights, createLight(type)]);
+    setSelected(value.lights.length);
+  };
+
+  const removeLight = (index: number) => {
+    setLights(value.lights.filter((_, i) => i !== index));
+    if (index <= selected) setSelected(Math.max(0, selected - 1));
+  };
+
+  const applyPreset = (id: string) => {
+    const preset = LIGHT_RIG_PRESETS.find((entry) => entry.id === id);
+    setPresetId('');
+    if (!preset) return;
+    onChange(preset.lighting);
+    setSelected(0);
+  };
+
+  const updatePosition = (axis: keyof Position, text: string) => {
+    const next = Number(text);
+    if (light && Number.isFinite(next)) updateLight({ position: { ...light.position, [axis]: clampPosition(next) } });
+  };
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      <h3 className="text-lg font-medium text-gray-900">Lighting Controls</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-8">
+        <div className="*:not-first:mt-4">
+          <Label className="text-sm font-medium">
+            Ambient Light: {value.ambientIntensity.toFixed(1)}x
+          </Label>
+          <Slider
+            value={[value.ambientIntensity]}
+            onValueChange={(next) => onChange({ ...value, ambientIntensity: next[0] })}
+            min={SETTINGS_LIMITS.ambientIntensity.min}
+            max={SETTINGS_LIMITS.ambientIntensity.max}
+            step={0.1}
+            aria-label="Ambient light intensity slider"
+          />
+        </div>
+
+        <div className="flex flex-col gap-3">
+          <Label htmlFor="light-rig-preset" className="text-sm font-medium">Rig Preset</Label>
+          <select
+            id="light-rig-preset"
+            value={presetId}
+            onChange={(e) => applyPreset(e.target.value)}
+            className={selectClassName}
+          >
+            <option value="">Apply a preset...</option>
+            {LIGHT_RIG_PRESETS.map((preset) => (
+              <option key={preset.id} value={preset.id}>{preset.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-3">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm font-medium">Lights ({value.lights.length}/{MAX_LIGHTS})</span>
+          <div className="flex flex-wrap justify-end gap-2">
+            {LIGHT_TYPES.map((type) => (
+              <Button
+                key={type}
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => addLight(type)}
+                disabled={value.lights.length >= MAX_LIGHTS}
+              >
+                <PlusIcon aria-hidden="true" />
+                {LIGHT_TYPE_LABELS[type]}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {value.lights.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No lights; only the ambient light reaches the model.</p>
+        ) : (
+          <ul className="divide-y rounded-lg border text-sm">
+            {value.lights.map((entry, index) => (
+              <li
+                key={index}
+                className={`flex items-center gap-3 px-3 py-1.5 ${index === selectedIndex ? 'bg-accent' : ''}`}
+              >
+                <button
+                  type="button"
+                  onClick={() => setSelected(index)}
+                  className="flex min-w-0 flex-1 items-center gap-2 text-left"
+                  aria-pressed={index === selectedIndex}
+                >
+                  <span className="size-3 shrink-0 rounded-full border" style={{ backgroundColor: entry.color }} />
+                  <span className="truncate">
+                    {LIGHT_TYPE_LABELS[entry.type]} · {entry.intensity.toFixed(1)}x
+                  </span>
+                  {entry.castShadow && entry.type !== 'hemisphere' && (
+                    <SunIcon className="size-3.5 text-muted-foreground" aria-label="Casts shadows" />
+                  )}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => removeLight(index)}
+                  className="text-muted-foreground hover:text-foreground"
+                  aria-label={`Remove light ${index + 1}`}
+                >
+                  <XIcon className="size-3.5" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {light && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+          <div className="flex flex-col gap-3">
+            <Label htmlFor="light-type" className="text-sm font-medium">Type</Label>
+            <select
+              id="light-type"
+              value={light.type}
+              onChange={(e) => updateLight({ type: e.target.value as LightType })}
+              className={selectClassName}
+            >
+              {LIGHT_TYPES.map((type) => (
+                <option key={type} value={type}>{LIGHT_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex gap-3">
+            <div className="flex flex-1 flex-col gap-3">
+              <Label htmlFor="light-color" className="text-sm font-medium">
+                {light.type === 'hemisphere' ? 'Sky Colour' : 'Colour'}
+              </Label>
+              <Input
+                id="light-color"
+                type="color"
+                value={light.color}
+                onChange={(e) => updateLight({ color: e.target.value })}
+                className="h-10 w-full p-1"
+              />
+            </div>
+            {light.type === 'hemisphere' && (
+              <div className="flex flex-1 flex-col gap-3">
+                <Label htmlFor="light-ground-color" className="text-sm font-medium">Ground Colour</Label>
+                <Input
+                  id="light-ground-color"
+                  type="color"
+                  value={light.groundColor}
+                  onChange={(e) => updateLight({ groundColor: e.target.value })}
+                  className="h-10 w-full p-1"
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="*:not-first:mt-4">
+            <Label className="text-sm font-medium">Intensity: {light.intensity.toFixed(1)}x</Label>
+            <Slider
+              value={[light.intensity]}
+              onValueChange={(next) => updateLight({ intensity: next[0] })}
+              min={SETTINGS_LIMITS.lightIntensity.min}
+              max={SETTINGS_LIMITS.lightIntensity.max}
+              step={0.1}
+              aria-label="Light intensity"
+            />
+          </div>
+
+          {light.type === 'hemisphere' ? (
+            <p className="text-xs text-muted-foreground">
+              A hemisphere light shades from sky to ground colour; its position only sets which way is up.
+            </p>
+          ) : (
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={light.castShadow}
+                onChange={(e) => updateLight({ castShadow: e.target.checked })}
+              />
+              Cast shadows
+            </label>
+          )}
+
+          {light.type === 'spot' && (
+            <>
+              <div className="*:not-first:mt-4">
+                <Label className="text-sm font-medium">Cone Angle: {light.angle}°</Label>
+                <Slider
+                  value={[light.angle]}
+                  onValueChange={(next) => updateLight({ angle: next[0] })}
+                  min={SETTINGS_LIMITS.spotAngle.min}
+                  max={SETTINGS_LIMITS.spotAngle.max}
+                  step={1}
+                  aria-label="Spot light cone angle"
+                />
+              </div>
+              <div className="*:not-first:mt-4">
+                <Label className="text-sm font-medium">Edge Softness: {Math.round(light.penumbra * 100)}%</Label>
+                <Slider
+                  value={[light.penumbra]}
+                  onValueChange={(next) => updateLight({ penumbra: next[0] })}
+                  min={SETTINGS_LIMITS.penumbra.min}
+                  max={SETTINGS_LIMITS.penumbra.max}
+                  step={0.05}
+                  aria-label="Spot light edge softness"
+                />
+              </div>
+            </>
+          )}
+
+          <div className="flex flex-wrap items-start gap-4 sm:col-span-2">
+            <LightPositionPad
+              lights={value.lights}
+              selected={selectedIndex}
+              onMove={(position) => updateLight({ position })}
+            />
+            <div className="flex flex-1 flex-col gap-3">
+              <span className="text-sm font-medium">
+                {light.type === 'hemisphere' ? 'Up Direction' : light.type === 'point' ? 'Position' : 'Direction (towards the model)'}
+              </span>
+              <div className="grid grid-cols-3 gap-2">
+                {(['x', 'y', 'z'] as const).map((axis) => (
+                  <div key={axis} className="flex flex-col gap-1">
+                    <Label htmlFor={`light-${axis}`} className="text-xs text-muted-foreground">{axis.toUpperCase()}</Label>
+                    <Input
+                      id={`light-${axis}`}
+                      type="number"
+                      min={SETTINGS_LIMITS.lightPosition.min}
+                      max={SETTINGS_LIMITS.lightPosition.max}
+                      step={0.1}
+                      value={light.position[axis]}
+                      onChange={(e) => updatePosition(axis, e.target.value)}
+                      className="h-9"
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="*:not-first:mt-4">
+                <Label className="text-sm font-medium">
+                  Depth: {light.position.z >= 0 ? 'in front of' : 'behind'} the model
+                </Label>
+                <Slider
+                  value={[light.position.z]}
+                  onValueChange={(next) => updateLight({ position: { ...light.position, z: next[0] } })}
+                  min={-PAD_RANGE}
+                  max={PAD_RANGE}
+                  step={0.1}
+                  aria-label="Light depth"
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Drag on the pad to move the light as seen from the camera. Lights stay fixed to the view while the model turns.
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LightingControls;
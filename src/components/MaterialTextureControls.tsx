@@ -0,0 +1,171 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import type { ModelMaterialInfo } from "@/hooks/use-sprite-strip-generator";
+import { TEXTURE_DRAG_TYPE } from "@/lib/texture-slots";
+import type { MaterialTextureMap } from "@/types";
+
+interface MaterialTextureControlsProps {
+  materials: ModelMaterialInfo[];
+  value: MaterialTextureMap;
+  onChange: (materialTextures: MaterialTextureMap) => void;
+  textures: File[]; // uploaded textures that can be assigned
+  getTexturePreview: (textureName: string) => string | null;
+  sharedTexture: File | null; // base colour of the texture slots, which unassigned materials follow
+  hasSharedTextures: boolean;
+  hasModel: boolean;
+  isLoading?: boolean;
+  selectClassName?: string;
+  className?: string;
+}
+
+// Select values besides texture names; file names cannot contain a slash
+const FOLLOW_SLOTS = '';
+const KEEP_OWN = '/own';
+
+const Thumbnail: React.FC<{ image: string | null; color: string | null; label: string }> = ({ image, color, label }) => (
+  <div
+    role="img"
+    aria-label={label}
+    title={label}
+    className="size-10 shrink-0 rounded border bg-cover bg-center"
+    style={image ? { backgroundImage: `url("${image}")` } : { backgroundColor: color ?? '#e5e7eb' }}
+  />
+);
+
+const MaterialTextureControls: React.FC<MaterialTextureControlsProps> = ({
+  materials,
+  value,
+  onChange,
+  textures,
+  getTexturePreview,
+  sharedTexture,
+  hasSharedTextures,
+  hasModel,
+  isLoading = false,
+  selectClassName = "",
+  className = "",
+}) => {
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const assign = (material: string, textureName: string | null | undefined) => {
+    const next = { ...value };
+    if (textureName === undefined) delete next[material];
+    else next[material] = textureName;
+    onChange(next);
+  };
+
+  const handleDragOver = (material: string) => (e: React.DragEvent<HTMLElement>) => {
+    if (!e.dataTransfer.types.includes(TEXTURE_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setDropTarget(material);
+  };
+
+  const handleDrop = (material: string) => (e: React.DragEvent<HTMLElement>) => {
+    const textureName = e.dataTransfer.getData(TEXTURE_DRAG_TYPE);
+    setDropTarget(null);
+    if (!textureName) return;
+    e.preventDefault();
+    assign(material, textureName);
+  };
+
+  // What a material will render with, for its thumbnail
+  const describe = (material: ModelMaterialInfo) => {
+    const assigned = value[material.name];
+    if (typeof assigned === 'string') {
+      return { image: getTexturePreview(assigned), color: null, label: assigned };
+    }
+    if (assigned === undefined && hasSharedTextures) {
+      return {
+        image: sharedTexture ? getTexturePreview(sharedTexture.name) : null,
+        color: '#ffffff',
+        label: sharedTexture ? `Texture slots: ${sharedTexture.name}` : 'Texture slots',
+      };
+    }
+    return { image: material.thumbnail, color: material.color, label: 'Own material' };
+  };
+
+  const missing = Object.entries(value).filter(
+    ([, textureName]) => typeof textureName === 'string' && !textures.some((texture) => texture.name === textureName)
+  );
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-700">Materials</h3>
+        {Object.keys(value).length > 0 && (
+          <Button type="button" size="sm" variant="outline" onClick={() => onChange({})}>
+            Reset
+          </Button>
+        )}
+      </div>
+
+      {!hasModel ? (
+        <p className="text-sm text-muted-foreground">Choose a model to list its materials.</p>
+      ) : isLoading ? (
+        <p className="text-sm text-muted-foreground">Reading materials...</p>
+      ) : materials.length === 0 ? (
+        <p className="text-sm text-muted-foreground">This model has no materials.</p>
+      ) : (
+        <ul className="max-h-72 divide-y overflow-y-auto rounded-lg border text-sm">
+          {materials.map((material) => {
+            const assigned = value[material.name];
+            const thumbnail = describe(material);
+            return (
+              <li
+                key={material.name}
+                onDragOver={handleDragOver(material.name)}
+                onDragLeave={() => setDropTarget((prev) => (prev === material.name ? null : prev))}
+                onDrop={handleDrop(material.name)}
+                className={`flex items-center gap-3 px-3 py-2 transition-colors ${
+                  dropTarget === material.name ? 'bg-accent' : ''
+                }`}
+              >
+                <Thumbnail {...thumbnail} />
+                <div className="min-w-0 flex-1">
+                  <p className="truncate font-medium" title={material.name}>{material.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {material.meshCount} mesh{material.meshCount === 1 ? '' : 'es'}
+                  </p>
+                </div>
+                <div className="w-40 shrink-0">
+                  <select
+                    value={assigned === undefined ? FOLLOW_SLOTS : assigned === null ? KEEP_OWN : assigned}
+                    onChange={(e) => assign(
+                      material.name,
+                      e.target.value === FOLLOW_SLOTS ? undefined : e.target.value === KEEP_OWN ? null : e.target.value
+                    )}
+                    aria-label={`Texture for ${material.name}`}
+                    className={selectClassName}
+                  >
+                    <option value={FOLLOW_SLOTS}>{hasSharedTextures ? 'Texture slots' : 'Texture slots (empty)'}</option>
+                    <option value={KEEP_OWN}>Own material</option>
+                    {textures.map((texture) => (
+                      <option key={texture.name} value={texture.name}>{texture.name}</option>
+                    ))}
+                    {typeof assigned === 'string' && !textures.some((texture) => texture.name === assigned) && (
+                      <option value={assigned}>{assigned} (not uploaded)</option>
+                    )}
+                  </select>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {missing.length > 0 && (
+        <p className="text-xs text-amber-700" role="alert">
+          Upload {Array.from(new Set(missing.map(([, textureName]) => textureName))).join(', ')} to use the saved assignment; until then those materials follow the texture slots.
+        </p>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Drag a texture from above onto a material to use it as that material&apos;s colour map.
+      </p>
+    </div>
+  );
+};
+
+export default MaterialTextureControls;
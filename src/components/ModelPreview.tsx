@@ -0,0 +1,237 @@
+"use client";
+
+import React, { useEffect, useRef } from "react";
+import * as THREE from "three";
+import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
+import { RotateCcwIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DEFAULT_CAMERA,
+  alignEnvironment,
+  alignLightRig,
+  applyCameraSettings,
+  applyClearColor,
+  applySceneSettings,
+  applyShadowSettings,
+  createCamera,
+  createClipPoser,
+  createRenderScene,
+  disposeObject,
+  findAnimationClip,
+  getCameraDistance,
+  getFrameAngles,
+  getFrameDimensions,
+  setPivotAngle,
+  type RenderScene,
+} from "@/hooks/use-sprite-strip-generator";
+import { getFacingAngle, getSheetDirections } from "@/lib/directions";
+import { SETTINGS_LIMITS, toGeneratorOptions } from "@/lib/generation-settings";
+import { getPreviewBackground } from "@/lib/preview-background";
+import type { CameraSettings, GenerationSettings } from "@/types";
+
+interface ModelPreviewProps {
+  model: THREE.Object3D | null;
+  isLoading?: boolean;
+  loadError?: string | null;
+  environmentMap?: THREE.Texture | null;
+  settings: GenerationSettings;
+  onCameraChange: (camera: CameraSettings) => void;
+  className?: string;
+}
+
+const round = (value: number, decimals: number) => Number(value.toFixed(decimals));
+
+/**
+ * Live view of the model with the current settings. The model is posed at
+ * the first frame's angle and clip time, and
+ * orbiting writes the camera back into the settings, so what is shown here
+ * is exactly frame 0 of the strip.
+ */
+const ModelPreview: React.FC<ModelPreviewProps> = ({
+  model,
+  isLoading = false,
+  loadError = null,
+  environmentMap = null,
+  settings,
+  onCameraChange,
+  className = "",
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
+  const sceneRef = useRef<RenderScene | null>(null);
+  const cameraRef = useRef<THREE.PerspectiveCamera | THREE.OrthographicCamera | null>(null);
+
+  // `settings` is a new object on every render; the key only changes with its values
+  const settingsKey = JSON.stringify(settings);
+  // Clips pose the model copy for good, so a different clip needs a fresh copy
+  const poseKey = JSON.stringify(
+    settings.sourceMode === 'animation'
+      ? settings.animation.clips
+      : settings.sourceMode === 'directional'
+        ? settings.directional.clip
+        : null
+  );
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const renderer = new THREE.WebGLRenderer({ canvas, antialias: true, alpha: true });
+    renderer.setPixelRatio(window.devicePixelRatio);
+    rendererRef.current = renderer;
+    return () => {
+      renderer.dispose();
+      rendererRef.current = null;
+    };
+  }, []);
+
+  // One scene per model, environment map and clip; the settings below only adjust it
+  useEffect(() => {
+    if (!model) return;
+
+    const renderScene = createRenderScene(model, {}, new THREE.PerspectiveCamera(), environmentMap);
+    const clipNames = JSON.parse(poseKey) as string[] | string | null;
+    const clip = (Array.isArray(clipNames) ? clipNames : clipNames ? [clipNames] : [])
+      .map((name) => findAnimationClip(model, name))
+      .find((found) => found !== undefined);
+    if (clip) createClipPoser(renderScene.model, clip)(0);
+    sceneRef.current = renderScene;
+
+    return () => {
+      sceneRef.current = null;
+      // The copy shares the loaded model's geometry and materials, which stay
+      disposeObject(renderScene.scene, model);
+    };
+  }, [model, environmentMap, poseKey]);
+
+  useEffect(() => {
+    const renderer = rendererRef.current;
+    const container = containerRef.current;
+    const renderScene = sceneRef.current;
+    if (!renderer || !container || !renderScene) return;
+
+    const current = JSON.parse(settingsKey) as GenerationSettings;
+    const options = toGeneratorOptions(current);
+    // An 'auto' frame is only measured when generating; until then the largest frame stands in
+    const { width, height } = getFrameDimensions(current);
+    const aspectRatio = width / height;
+
+    applyClearColor(renderer, options);
+    applyShadowSettings(renderer, options);
+    const isOrthographic = current.camera.projection === 'orthographic';
+    if (!cameraRef.current || (cameraRef.current instanceof THREE.OrthographicCamera) !== isOrthographic) {
+      cameraRef.current = createCamera(current.camera, aspectRatio);
+    } else {
+      applyCameraSettings(cameraRef.current, current.camera, aspectRatio);
+    }
+    const camera = cameraRef.current;
+    const { scene, pivot, lightRig } = renderScene;
+    applySceneSettings(renderScene, options, camera);
+    if (current.sourceMode === 'directional') {
+      // The first row faces north, away from the camera
+      setPivotAngle(pivot, 'y', getFacingAngle(getSheetDirections(current.directional.directions)[0].angle, current.camera.azimuth));
+    } else if (current.sourceMode === 'animation') {
+      pivot.rotation.set(0, 0, 0);
+    } else {
+      setPivotAngle(pivot, current.rotation.axis, getFrameAngles(current.frameCount, current.rotation)[0]);
+    }
+
+    const controls = new OrbitControls(camera, renderer.domElement);
+    controls.enablePan = false;
+    controls.minDistance = SETTINGS_LIMITS.distance.min;
+    controls.maxDistance = SETTINGS_LIMITS.distance.max;
+    controls.minZoom = SETTINGS_LIMITS.orthoZoom.min;
+    controls.maxZoom = SETTINGS_LIMITS.orthoZoom.max;
+
+    // The lights and environment orbit along with the view, as they will in the strip
+    const render = () => {
+      alignLightRig(lightRig, camera);
+      alignEnvironment(scene, camera, current.environment.rotation);
+      renderer.render(scene, camera);
+    };
+
+    // Hand the orbit back as camera settings once the drag ends
+    const handleEnd = () => {
+      const spherical = new THREE.Spherical().setFromVector3(camera.position);
+      const next: CameraSettings = {
+        ...current.camera,
+        elevation: round(90 - THREE.MathUtils.radToDeg(spherical.phi), 1),
+        azimuth: round(THREE.MathUtils.radToDeg(spherical.theta), 1),
+      };
+      if (camera instanceof THREE.OrthographicCamera) {
+        next.orthoZoom = round(camera.zoom, 2);
+      } else if (Math.abs(spherical.radius - getCameraDistance(current.camera, aspectRatio)) > 0.01) {
+        // Dollying switches auto-fit off in favour of the chosen distance
+        next.distance = round(spherical.radius, 1);
+      }
+      onCameraChange(next);
+    };
+
+    const resize = () => {
+      const rect = container.getBoundingClientRect();
+      renderer.setSize(rect.width, rect.height, false);
+      render();
+    };
+
+    controls.addEventListener('change', render);
+    controls.addEventListener('end', handleEnd);
+    const observer = new ResizeObserver(resize);
+    observer.observe(container);
+    resize();
+
+    return () => {
+      observer.disconnect();
+      controls.removeEventListener('change', render);
+      controls.removeEventListener('end', handleEnd);
+      controls.dispose();
+    };
+  }, [model, environmentMap, poseKey, settingsKey, onCameraChange]);
+
+  const frameDimensions = getFrameDimensions(settings);
+
+  const handleReset = () => {
+    onCameraChange({
+      ...settings.camera,
+      elevation: DEFAULT_CAMERA.elevation,
+      azimuth: DEFAULT_CAMERA.azimuth,
+      distance: undefined,
+      orthoZoom: DEFAULT_CAMERA.orthoZoom,
+    });
+  };
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-700">Preview (frame 0)</h3>
+        <Button type="button" size="sm" variant="outline" onClick={handleReset} disabled={!model}>
+          <RotateCcwIcon aria-hidden="true" />
+          Reset View
+        </Button>
+      </div>
+      <div
+        ref={containerRef}
+        className="relative w-full border rounded overflow-hidden"
+        style={{
+          ...getPreviewBackground(settings),
+          aspectRatio: `${frameDimensions.width} / ${frameDimensions.height}`,
+        }}
+      >
+        <canvas
+          ref={canvasRef}
+          className={`absolute inset-0 size-full ${model ? 'cursor-grab active:cursor-grabbing' : 'invisible'}`}
+        />
+        {!model && (
+          <div className="absolute inset-0 flex items-center justify-center p-4 text-center text-sm text-muted-foreground">
+            {isLoading ? 'Loading model...' : loadError ?? 'Choose a model to preview it'}
+          </div>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Drag to orbit and scroll to zoom; the view becomes the first frame of the strip.
+      </p>
+    </div>
+  );
+};
+
+export default ModelPreview;
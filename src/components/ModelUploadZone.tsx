@@ -0,0 +1,253 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { AlertCircleIcon, BoxIcon, FolderOpenIcon, UploadIcon, XIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { formatBytes, useFileUpload } from "@/hooks/use-file-upload";
+import {
+  MODEL_EXTENSIONS,
+  RESOURCE_EXTENSIONS,
+  findMissingResources,
+  getRelativePath,
+  isAcceptedUpload,
+  isModelFile,
+  readDroppedEntries,
+} from "@/lib/model-resources";
+
+export interface ModelUpload {
+  modelFile: File | null;
+  resourceFiles: File[];
+}
+
+interface ModelUploadZoneProps {
+  onChange: (upload: ModelUpload) => void;
+  selectClassName?: string;
+  className?: string;
+}
+
+const ACCEPT = [...MODEL_EXTENSIONS, ...RESOURCE_EXTENSIONS].join(",");
+const maxSizeMB = 100;
+const maxFiles = 500;
+
+const ModelUploadZone: React.FC<ModelUploadZoneProps> = ({
+  onChange,
+  selectClassName = "",
+  className = "",
+}) => {
+  const [mainId, setMainId] = useState<string | null>(null);
+  const [missing, setMissing] = useState<string[]>([]);
+
+  const [
+    { files, isDragging, errors },
+    {
+      addFiles,
+      handleDragEnter,
+      handleDragLeave,
+      handleDragOver,
+      handleDrop,
+      openFileDialog,
+      removeFile,
+      clearFiles,
+      getInputProps,
+    },
+  ] = useFileUpload({
+    accept: ACCEPT,
+    maxSize: maxSizeMB * 1024 * 1024,
+    multiple: true,
+    maxFiles,
+  });
+
+  const uploaded = useMemo(
+    () => files.filter((f) => f.file instanceof File) as { id: string; file: File }[],
+    [files]
+  );
+  const models = uploaded.filter((f) => isModelFile(f.file));
+  const main = models.find((f) => f.id === mainId) ?? models[0] ?? null;
+  const modelFile = main?.file ?? null;
+  // Everything next to the rendered model is a candidate for its relative URIs
+  const resourceFiles = useMemo(
+    () => uploaded.filter((f) => f.file !== modelFile).map((f) => f.file),
+    [uploaded, modelFile]
+  );
+
+  useEffect(() => {
+    onChange({ modelFile, resourceFiles });
+
+    if (!modelFile) {
+      setMissing([]);
+      return;
+    }
+
+    let cancelled = false;
+    findMissingResources(modelFile, resourceFiles)
+      .then((result) => {
+        if (!cancelled) setMissing(result);
+      })
+      .catch((err) => {
+        console.warn('Could not read model references:', err);
+        if (!cancelled) setMissing([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [modelFile, resourceFiles, onChange]);
+
+  // Folders only arrive as entries; plain files go through the hook as usual
+  const handleZoneDrop = (e: React.DragEvent<HTMLElement>) => {
+    const entries = Array.from(e.dataTransfer.items)
+      .map((item) => item.webkitGetAsEntry?.())
+      .filter((entry): entry is FileSystemEntry => !!entry);
+
+    if (!entries.some((entry) => entry.isDirectory)) {
+      handleDrop(e);
+      return;
+    }
+
+    e.preventDefault();
+    handleDragLeave(e);
+    readDroppedEntries(entries)
+      .then((dropped) => addFiles(dropped.filter(isAcceptedUpload)))
+      .catch((err) => console.error('Failed to read dropped folder:', err));
+  };
+
+  const handleFolderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []).filter(isAcceptedUpload);
+    e.target.value = "";
+    if (selected.length > 0) addFiles(selected);
+  };
+
+  return (
+    <div className={`flex flex-col gap-3 ${className}`}>
+      <Label className="text-sm font-medium">3D Model (.gltf/.glb/.fbx/.obj with its .bin, .mtl and textures)</Label>
+      <div
+        onDragEnter={handleDragEnter}
+        onDragLeave={handleDragLeave}
+        onDragOver={handleDragOver}
+        onDrop={handleZoneDrop}
+        data-dragging={isDragging || undefined}
+        className="relative flex min-h-32 flex-col items-center justify-center overflow-hidden rounded-xl border border-dashed border-input p-4 transition-colors has-[input:focus]:border-ring has-[input:focus]:ring-[3px] has-[input:focus]:ring-ring/50 data-[dragging=true]:bg-accent/50"
+      >
+        <input
+          {...getInputProps()}
+          className="sr-only"
+          aria-label="Upload model files"
+        />
+        <input
+          type="file"
+          multiple
+          ref={(el) => el?.setAttribute('webkitdirectory', '')}
+          onChange={handleFolderChange}
+          className="sr-only"
+          id="model-folder"
+          aria-label="Upload a model folder"
+        />
+        <div className="flex flex-col items-center justify-center px-4 py-3 text-center">
+          <div
+            className="mb-2 flex size-11 shrink-0 items-center justify-center rounded-full border bg-background"
+            aria-hidden="true"
+          >
+            <BoxIcon className="size-4 opacity-60" />
+          </div>
+          <p className="mb-1.5 text-sm font-medium">Drop a model, several files or a whole folder</p>
+          <p className="text-xs text-muted-foreground">
+            Relative .bin, .mtl and texture paths are resolved against the uploaded files (max. {maxSizeMB}MB each)
+          </p>
+          <div className="mt-4 flex flex-wrap justify-center gap-2">
+            <Button variant="outline" onClick={openFileDialog} type="button">
+              <UploadIcon className="-ms-1 opacity-60" aria-hidden="true" />
+              Select files
+            </Button>
+            <Button variant="outline" type="button" asChild>
+              <label htmlFor="model-folder" className="cursor-pointer">
+                <FolderOpenIcon className="-ms-1 opacity-60" aria-hidden="true" />
+                Select folder
+              </label>
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <div
+          className="flex items-center gap-1 text-xs text-destructive"
+          role="alert"
+        >
+          <AlertCircleIcon className="size-3 shrink-0" />
+          <span>{errors[0]}</span>
+        </div>
+      )}
+
+      {uploaded.length > 0 && (
+        <>
+          {models.length > 1 && (
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="main-model" className="text-xs font-medium">Model to render</Label>
+              <select
+                id="main-model"
+                value={main?.id ?? ''}
+                onChange={(e) => setMainId(e.target.value)}
+                className={selectClassName}
+              >
+                {models.map((f) => (
+                  <option key={f.id} value={f.id}>{getRelativePath(f.file)}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <ul className="max-h-48 divide-y overflow-y-auto rounded-lg border text-sm">
+            {uploaded.map((f) => (
+              <li key={f.id} className="flex items-center gap-3 px-3 py-1.5">
+                <span className={`min-w-0 flex-1 truncate ${f === main ? 'font-medium' : ''}`} title={getRelativePath(f.file)}>
+                  {getRelativePath(f.file)}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {f === main ? 'model · ' : ''}{formatBytes(f.file.size)}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => removeFile(f.id)}
+                  className="text-muted-foreground hover:text-foreground"
+                  aria-label={`Remove ${f.file.name}`}
+                >
+                  <XIcon className="size-3.5" />
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {!main && (
+            <p className="text-xs text-destructive" role="alert">
+              None of the uploaded files is a model. Add a .gltf, .glb, .fbx or .obj file.
+            </p>
+          )}
+
+          {missing.length > 0 && (
+            <div className="rounded-lg border border-amber-300 bg-amber-50 p-3 text-xs text-amber-900" role="alert">
+              <p className="font-medium">
+                {main?.file.name} refers to {missing.length} file{missing.length === 1 ? '' : 's'} that {missing.length === 1 ? 'was' : 'were'} not uploaded:
+              </p>
+              <ul className="mt-1 list-disc ps-4">
+                {missing.map((uri) => (
+                  <li key={uri} className="break-all">{uri}</li>
+                ))}
+              </ul>
+              <p className="mt-1">Add them, or drop the model&apos;s whole folder.</p>
+            </div>
+          )}
+
+          <button
+            type="button"
+            onClick={clearFiles}
+            className="self-start text-xs text-red-600 hover:text-red-800"
+          >
+            Remove all files
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ModelUploadZone;
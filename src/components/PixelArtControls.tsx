@@ -0,0 +1,252 @@
+"use client";
+
+import React, { useState } from "react";
+import { AlertCircleIcon, PaletteIcon, UploadIcon, XIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { useFileUpload } from "@/hooks/use-file-upload";
+import { SETTINGS_LIMITS } from "@/lib/generation-settings";
+import { PALETTE_EXTENSIONS, parsePaletteFile } from "@/lib/pixel-art";
+import type { DitherMode, PaletteSource, PixelArtSettings } from "@/types";
+
+interface PixelArtControlsProps {
+  value: PixelArtSettings;
+  onChange: (pixelArt: PixelArtSettings) => void;
+  frameWidth: number; // output frame width, to show the art resolution
+  frameHeight: number;
+  selectClassName?: string;
+  className?: string;
+}
+
+const MAX_SIZE_MB = 5;
+// More chips than this are summarised, so big palettes do not push the form down
+const MAX_SWATCHES = 64;
+
+const PixelArtControls: React.FC<PixelArtControlsProps> = ({
+  value,
+  onChange,
+  frameWidth,
+  frameHeight,
+  selectClassName = "",
+  className = "",
+}) => {
+  const [paletteName, setPaletteName] = useState<string | null>(null);
+  const [paletteError, setPaletteError] = useState<string | null>(null);
+
+  const update = (patch: Partial<PixelArtSettings>) => onChange({ ...value, ...patch });
+
+  const [
+    { isDragging, errors },
+    { handleDragEnter, handleDragLeave, handleDragOver, handleDrop, openFileDialog, clearFiles, getInputProps },
+  ] = useFileUpload({
+    accept: PALETTE_EXTENSIONS.join(','),
+    maxSize: MAX_SIZE_MB * 1024 * 1024,
+    onFilesAdded: async ([added]) => {
+      const file = added.file as File;
+      setPaletteError(null);
+      try {
+        const colors = await parsePaletteFile(file);
+        setPaletteName(file.name);
+        onChange({ ...value, palette: 'custom', customPalette: colors });
+      } catch (err) {
+        setPaletteError(err instanceof Error ? err.message : `Could not read ${file.name}`);
+      } finally {
+        clearFiles();
+      }
+    },
+  });
+
+  const handleRemovePalette = () => {
+    setPaletteName(null);
+    setPaletteError(null);
+    update({ customPalette: [], palette: value.palette === 'custom' ? 'none' : value.palette });
+  };
+
+  const artWidth = Math.max(1, Math.round(frameWidth / value.scale));
+  const artHeight = Math.max(1, Math.round(frameHeight / value.scale));
+  const hasCustomPalette = value.customPalette.length > 0;
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      <h3 className="text-lg font-medium text-gray-900">Pixel Art</h3>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={value.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+        />
+        Render as pixel art
+      </label>
+
+      {value.enabled && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-8">
+            <div className="*:not-first:mt-4">
+              <Label className="text-sm font-medium">
+                Pixel Size: {value.scale}px ({artWidth}×{artHeight} art pixels)
+              </Label>
+              <Slider
+                value={[value.scale]}
+                onValueChange={(next) => update({ scale: next[0] })}
+                min={SETTINGS_LIMITS.pixelScale.min}
+                max={SETTINGS_LIMITS.pixelScale.max}
+                step={1}
+                aria-label="Pixel size slider"
+              />
+            </div>
+
+            <div className="flex flex-col gap-3">
+              <label className="flex items-center gap-2 text-sm font-medium">
+                <input
+                  type="checkbox"
+                  checked={value.outline}
+                  onChange={(e) => update({ outline: e.target.checked })}
+                />
+                1px Outline
+              </label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={value.outlineColor}
+                  onChange={(e) => update({ outlineColor: e.target.value })}
+                  disabled={!value.outline}
+                  aria-label="Outline colour"
+                  className="h-10 w-20 rounded border border-gray-300 cursor-pointer disabled:cursor-not-allowed disabled:opacity-50"
+                />
+                <span className="text-sm text-muted-foreground">{value.outlineColor}</span>
+              </div>
+            </div>
+
+            <div className="flex flex-col gap-3">
+              <Label htmlFor="pixel-palette" className="text-sm font-medium">Palette</Label>
+              <select
+                id="pixel-palette"
+                value={value.palette}
+                onChange={(e) => update({ palette: e.target.value as PaletteSource })}
+                className={selectClassName}
+              >
+                <option value="none">Full colour</option>
+                <option value="auto">Auto ({value.colors} colours)</option>
+                <option value="custom">
+                  {hasCustomPalette ? `Uploaded (${value.customPalette.length} colours)` : 'Uploaded palette'}
+                </option>
+              </select>
+            </div>
+
+            <div className="flex flex-col gap-3">
+              <Label htmlFor="pixel-dither" className="text-sm font-medium">Dithering</Label>
+              <select
+                id="pixel-dither"
+                value={value.dither}
+                onChange={(e) => update({ dither: e.target.value as DitherMode })}
+                disabled={value.palette === 'none'}
+                className={selectClassName}
+              >
+                <option value="none">None</option>
+                <option value="ordered">Ordered (Bayer 4×4)</option>
+                <option value="floyd-steinberg">Floyd–Steinberg</option>
+              </select>
+            </div>
+
+            {value.palette === 'auto' && (
+              <div className="*:not-first:mt-4">
+                <Label className="text-sm font-medium">Colours: {value.colors}</Label>
+                <Slider
+                  value={[value.colors]}
+                  onValueChange={(next) => update({ colors: next[0] })}
+                  min={SETTINGS_LIMITS.paletteColors.min}
+                  max={SETTINGS_LIMITS.paletteColors.max}
+                  step={1}
+                  aria-label="Palette colour count slider"
+                />
+              </div>
+            )}
+
+            {value.palette === 'auto' && (
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={value.lockPalette}
+                  onChange={(e) => update({ lockPalette: e.target.checked })}
+                />
+                Lock palette across the run
+              </label>
+            )}
+          </div>
+
+          {value.palette === 'custom' && (
+            <div className="space-y-3">
+              <div
+                onDragEnter={handleDragEnter}
+                onDragLeave={handleDragLeave}
+                onDragOver={handleDragOver}
+                onDrop={handleDrop}
+                data-dragging={isDragging || undefined}
+                className="flex items-center gap-3 rounded-xl border border-dashed border-input p-3 transition-colors has-[input:focus]:border-ring has-[input:focus]:ring-[3px] has-[input:focus]:ring-ring/50 data-[dragging=true]:bg-accent/50"
+              >
+                <input {...getInputProps()} className="sr-only" aria-label="Upload palette" />
+                <div
+                  className="flex size-9 shrink-0 items-center justify-center rounded-full border bg-background"
+                  aria-hidden="true"
+                >
+                  <PaletteIcon className="size-4 opacity-60" />
+                </div>
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-medium" title={paletteName ?? undefined}>
+                    {paletteName ?? (hasCustomPalette ? `${value.customPalette.length} colours` : 'Drop a palette')}
+                  </p>
+                  <p className="text-xs text-muted-foreground">GIMP .gpl, .hex list, or a PNG swatch</p>
+                </div>
+                {hasCustomPalette && (
+                  <Button type="button" size="icon" variant="ghost" onClick={handleRemovePalette} aria-label="Remove palette">
+                    <XIcon aria-hidden="true" />
+                  </Button>
+                )}
+                <Button type="button" size="sm" variant="outline" onClick={openFileDialog}>
+                  <UploadIcon className="-ms-1 opacity-60" aria-hidden="true" />
+                  {hasCustomPalette ? 'Replace' : 'Select'}
+                </Button>
+              </div>
+
+              {hasCustomPalette && (
+                <ul className="flex flex-wrap gap-1" aria-label="Palette colours">
+                  {value.customPalette.slice(0, MAX_SWATCHES).map((color) => (
+                    <li
+                      key={color}
+                      title={color}
+                      className="size-5 rounded-sm border"
+                      style={{ backgroundColor: color }}
+                    />
+                  ))}
+                  {value.customPalette.length > MAX_SWATCHES && (
+                    <li className="text-xs text-muted-foreground self-center">
+                      +{value.customPalette.length - MAX_SWATCHES} more
+                    </li>
+                  )}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {(errors.length > 0 || paletteError) && (
+            <div className="flex items-center gap-1 text-xs text-destructive" role="alert">
+              <AlertCircleIcon className="size-3 shrink-0" />
+              <span>{errors[0] ?? paletteError}</span>
+            </div>
+          )}
+          {value.palette === 'custom' && !hasCustomPalette && (
+            <p className="text-xs text-amber-700">Upload a palette to use it; until then frames keep their full colour.</p>
+          )}
+
+          <p className="text-xs text-muted-foreground">
+            Frames render at 1/{value.scale} size without smoothing and are scaled back up by whole pixels; the frame size snaps to a multiple of the pixel size. An auto palette is picked from every frame of a sheet; locked, the first sheet&apos;s palette carries over to the rest of the run, including batches and texture variants.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PixelArtControls;
@@ -0,0 +1,164 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import { DownloadIcon, SaveIcon, Trash2Icon, UploadIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { usePresets } from "@/hooks/use-presets";
+import { downloadBlob } from "@/lib/download";
+import { isSameSettings } from "@/lib/generation-settings";
+import { serializePresets } from "@/lib/presets";
+import type { GenerationSettings } from "@/types";
+
+interface PresetControlsProps {
+  settings: GenerationSettings;
+  onApply: (settings: GenerationSettings) => void;
+  selectClassName?: string;
+  className?: string;
+}
+
+const PresetControls: React.FC<PresetControlsProps> = ({ settings, onApply, selectClassName = "", className = "" }) => {
+  const { presets, userPresets, savePreset, deletePreset, importPresets } = usePresets();
+  const [presetName, setPresetName] = useState("");
+  const [notice, setNotice] = useState<{ type: 'info' | 'error'; messages: string[] } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // The dropdown follows the settings, so any manual change shows as "Custom"
+  const activePreset = presets.find((preset) => isSameSettings(preset.settings, settings));
+
+  const handleSelect = (id: string) => {
+    const preset = presets.find((item) => item.id === id);
+    if (preset) {
+      onApply(preset.settings);
+      setNotice(null);
+    }
+  };
+
+  const handleSave = () => {
+    if (!presetName.trim()) return;
+    const preset = savePreset(presetName, settings);
+    setPresetName("");
+    setNotice({ type: 'info', messages: [`Saved preset "${preset.name}"`] });
+  };
+
+  const handleExport = () => {
+    const toExport = userPresets.length > 0
+      ? userPresets
+      : [{ id: 'current', name: activePreset?.name ?? 'Current settings', settings }];
+    downloadBlob(
+      new Blob([serializePresets(toExport)], { type: 'application/json' }),
+      '3dtostrip-presets.json'
+    );
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const { count, issues } = await importPresets(file);
+      setNotice({
+        type: 'info',
+        messages: [`Imported ${count} preset${count === 1 ? '' : 's'}`, ...issues],
+      });
+    } catch (err) {
+      setNotice({
+        type: 'error',
+        messages: [err instanceof Error ? err.message : 'Failed to import presets'],
+      });
+    }
+  };
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="flex flex-col gap-3">
+          <Label htmlFor="preset-select" className="text-sm font-medium">Preset</Label>
+          <select
+            id="preset-select"
+            value={activePreset?.id ?? ''}
+            onChange={(e) => handleSelect(e.target.value)}
+            className={selectClassName}
+          >
+            <option value="" disabled>Custom</option>
+            <optgroup label="Built-in">
+              {presets.filter((preset) => preset.builtIn).map((preset) => (
+                <option key={preset.id} value={preset.id}>{preset.name}</option>
+              ))}
+            </optgroup>
+            {userPresets.length > 0 && (
+              <optgroup label="Saved">
+                {userPresets.map((preset) => (
+                  <option key={preset.id} value={preset.id}>{preset.name}</option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+        </div>
+
+        <div className="flex flex-col gap-3">
+          <Label htmlFor="preset-name" className="text-sm font-medium">Save Current Settings As</Label>
+          <div className="flex gap-2">
+            <Input
+              id="preset-name"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleSave();
+                }
+              }}
+              placeholder="Preset name"
+              className="h-10"
+            />
+            <Button type="button" variant="outline" className="h-10" onClick={handleSave} disabled={!presetName.trim()}>
+              <SaveIcon aria-hidden="true" />
+              Save
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+          <UploadIcon aria-hidden="true" />
+          Import JSON
+        </Button>
+        <Button type="button" size="sm" variant="outline" onClick={handleExport}>
+          <DownloadIcon aria-hidden="true" />
+          Export JSON
+        </Button>
+        {activePreset && !activePreset.builtIn && (
+          <Button type="button" size="sm" variant="outline" onClick={() => deletePreset(activePreset.id)}>
+            <Trash2Icon aria-hidden="true" />
+            Delete &quot;{activePreset.name}&quot;
+          </Button>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleImport}
+          className="sr-only"
+          aria-label="Import presets from JSON"
+        />
+      </div>
+
+      {notice && (
+        <div
+          className={`text-xs ${notice.type === 'error' ? 'text-destructive' : 'text-muted-foreground'}`}
+          role={notice.type === 'error' ? 'alert' : 'status'}
+        >
+          {notice.messages.map((message, index) => (
+            <p key={index}>{message}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PresetControls;
@@ -2,22 +2,36 @@
 
 import React from "react";
 import { X, Check } from "lucide-react";
+import {
+  TEXTURE_DRAG_TYPE,
+  TEXTURE_SLOTS,
+  TEXTURE_SLOT_BADGES,
+  TEXTURE_SLOT_LABELS,
+  getTextureSlots,
+} from "@/lib/texture-slots";
+import type { TextureSet, TextureSlot } from "@/types";
 
 interface SimpleTextureSelectorProps {
   textures: File[];
-  selectedTexture: File | null;
+  selectedTexture: File | null; // the base colour map
+  textureSlots?: TextureSet;
   onTexturesChange: (textures: File[]) => void;
   onTextureSelect: (texture: File | null) => void;
+  onTextureSlotChange?: (slot: TextureSlot, texture: File | null) => void;
   maxTextures?: number;
+  selectClassName?: string;
   className?: string;
 }
 
 const SimpleTextureSelector: React.FC<SimpleTextureSelectorProps> = ({
   textures,
   selectedTexture,
+  textureSlots = {},
   onTexturesChange,
   onTextureSelect,
+  onTextureSlotChange,
   maxTextures = 10,
+  selectClassName = "",
   className = ""
 }) => {
   const removeTexture = (textureName: string) => {
@@ -56,6 +70,7 @@ const SimpleTextureSelector: React.FC<SimpleTextureSelectorProps> = ({
             {textures.map((texture) => {
               const isSelected = selectedTexture === texture;
               const preview = URL.createObjectURL(texture);
+              const slots = getTextureSlots(textureSlots, texture).filter((slot) => slot !== 'baseColor');
 
               return (
                 <div
@@ -66,6 +81,12 @@ const SimpleTextureSelector: React.FC<SimpleTextureSelectorProps> = ({
                       : 'border-gray-200 hover:border-gray-300'
                   }`}
                   onClick={() => onTextureSelect(isSelected ? null : texture)}
+                  draggable
+                  onDragStart={(e) => {
+                    // Dropped onto a material in the material list
+                    e.dataTransfer.setData(TEXTURE_DRAG_TYPE, texture.name);
+                    e.dataTransfer.effectAllowed = 'copy';
+                  }}
                 >
                   <img
                     src={preview}
@@ -80,6 +101,13 @@ const SimpleTextureSelector: React.FC<SimpleTextureSelectorProps> = ({
                     </div>
                   )}
 
+                  {/* Material maps this texture drives besides the base colour */}
+                  {slots.length > 0 && (
+                    <div className="absolute inset-x-0 bottom-0 truncate bg-black/60 px-1 text-center text-[10px] font-medium text-white">
+                      {slots.map((slot) => TEXTURE_SLOT_BADGES[slot]).join(' ')}
+                    </div>
+                  )}
+
                   {/* Remove button */}
                   <button
                     type="button"
@@ -96,7 +124,32 @@ const SimpleTextureSelector: React.FC<SimpleTextureSelectorProps> = ({
             })}
           </div>
 
-          {/* Selected Texture Info */}
+          {/* Material maps */}
+          {onTextureSlotChange && (
+            <div className="space-y-2">
+              <h4 className="text-xs font-medium text-gray-700">Material Maps</h4>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-2">
+                {TEXTURE_SLOTS.map((slot) => (
+                  <label key={slot} className="flex flex-col gap-1 text-xs text-muted-foreground">
+                    {TEXTURE_SLOT_LABELS[slot]}
+                    <select
+                      value={textureSlots[slot]?.name ?? ''}
+                      onChange={(e) => onTextureSlotChange(slot, textures.find((texture) => texture.name === e.target.value) ?? null)}
+                      className={selectClassName}
+                    >
+                      <option value="">None</option>
+                      {textures.map((texture) => (
+                        <option key={texture.name} value={texture.name}>{texture.name}</option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Click a thumbnail to use it as the base colour. Names ending in _BaseColor, _N, _ORM, _Roughness and the like fill their slot on upload.
+              </p>
+            </div>
+          )}
 
 
           {textures.length >= maxTextures && (
@@ -0,0 +1,230 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { PauseIcon, PlayIcon, StepBackIcon, StepForwardIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import SpriteStripViewer from "@/components/SpriteStripViewer";
+import { getPreviewBackground } from "@/lib/preview-background";
+import { cn } from "@/lib/utils";
+import type { SpriteStripData } from "@/types";
+
+interface SpriteStripPlayerProps {
+  data: SpriteStripData;
+  selectClassName?: string;
+  className?: string;
+}
+
+type PlaybackMode = 'loop' | 'ping-pong' | 'reverse';
+
+interface Playhead {
+  frame: number;
+  direction: 1 | -1; // ping-pong only
+}
+
+const PLAYBACK_MODE_LABELS: Record<PlaybackMode, string> = {
+  loop: 'Loop',
+  'ping-pong': 'Ping-pong',
+  reverse: 'Reverse',
+};
+
+// 0 fits the frame to the panel; anything else is whole screen pixels per sheet pixel
+const ZOOM_LEVELS = [0, 1, 2, 3, 4, 6, 8];
+
+// Turntables have no clip rate of their own
+const DEFAULT_FPS = 12;
+const MAX_FPS = 60;
+// Past these the scrubber thins out its tick marks and labels
+const MAX_TICKS = 60;
+const MAX_TICK_LABELS = 10;
+
+const getNextPlayhead = ({ frame, direction }: Playhead, frameCount: number, mode: PlaybackMode): Playhead => {
+  if (mode === 'reverse') return { frame: (frame - 1 + frameCount) % frameCount, direction: 1 };
+  if (mode === 'loop') return { frame: (frame + 1) % frameCount, direction: 1 };
+  // Ping-pong turns on the first and last frames without showing them twice
+  const next = frame + direction;
+  if (next >= 0 && next < frameCount) return { frame: next, direction };
+  return { frame: frame - direction, direction: direction === 1 ? -1 : 1 };
+};
+
+const getClipFps = (data: SpriteStripData) =>
+  Math.max(1, Math.min(MAX_FPS, Math.round(data.metadata.animation?.fps || DEFAULT_FPS)));
+
+/**
+ * Plays a generated sheet frame by frame: play/pause, a frame rate, a
+ * scrubber, single-frame steps, loop, ping-pong and reverse playback, and a
+ * zoom that scales by whole pixels with nearest-neighbour sampling.
+ */
+const SpriteStripPlayer: React.FC<SpriteStripPlayerProps> = ({ data, selectClassName = "", className = "" }) => {
+  const [playhead, setPlayhead] = useState<Playhead>({ frame: 0, direction: 1 });
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [fps, setFps] = useState(() => getClipFps(data));
+  const [mode, setMode] = useState<PlaybackMode>('loop');
+  const [zoom, setZoom] = useState(0);
+
+  const frameCount = Math.max(1, data.frameCount);
+  const frame = Math.min(playhead.frame, frameCount - 1);
+  const { width, height } = data.metadata;
+
+  // A new sheet starts from its first frame at its own clip rate
+  useEffect(() => {
+    setPlayhead({ frame: 0, direction: 1 });
+    setFps(getClipFps(data));
+  }, [data]);
+
+  useEffect(() => {
+    if (!isPlaying || frameCount < 2) return;
+    const timer = setInterval(() => setPlayhead((prev) => getNextPlayhead(prev, frameCount, mode)), 1000 / fps);
+    return () => clearInterval(timer);
+  }, [isPlaying, frameCount, fps, mode]);
+
+  const showFrame = (next: number) => {
+    setIsPlaying(false);
+    setPlayhead({ frame: (next + frameCount) % frameCount, direction: 1 });
+  };
+
+  const tickStep = Math.ceil(frameCount / MAX_TICKS);
+  const labelStep = tickStep * Math.ceil(frameCount / (MAX_TICK_LABELS * tickStep));
+  const ticks = [...Array(Math.ceil(frameCount / tickStep))].map((_, i) => i * tickStep);
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <div className={cn("w-full border rounded", zoom > 0 ? "max-h-[70vh] overflow-auto bg-gray-100" : "overflow-hidden")}>
+        <div
+          className={zoom > 0 ? "mx-auto" : "w-full"}
+          style={{
+            ...getPreviewBackground(data.metadata),
+            aspectRatio: `${width} / ${height}`,
+            ...(zoom > 0 && { width: `${width * zoom}px` }),
+          }}
+        >
+          <SpriteStripViewer
+            spriteStripUrl={data.spriteStripUrl}
+            companionUrls={data.companionUrls}
+            frameCount={frameCount}
+            layout={data.metadata.layout}
+            trim={data.metadata.trim}
+            pixelated={zoom > 1 || data.metadata.pixelScale !== undefined}
+            ratio={data.ratio}
+            hover={false}
+            frame={frame}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <Button
+          type="button"
+          size="icon"
+          variant="outline"
+          onClick={() => showFrame(frame - 1)}
+          disabled={frameCount < 2}
+          aria-label="Previous frame"
+        >
+          <StepBackIcon aria-hidden="true" />
+        </Button>
+        <Button
+          type="button"
+          size="icon"
+          onClick={() => setIsPlaying((prev) => !prev)}
+          disabled={frameCount < 2}
+          aria-label={isPlaying ? 'Pause' : 'Play'}
+        >
+          {isPlaying ? <PauseIcon aria-hidden="true" /> : <PlayIcon aria-hidden="true" />}
+        </Button>
+        <Button
+          type="button"
+          size="icon"
+          variant="outline"
+          onClick={() => showFrame(frame + 1)}
+          disabled={frameCount < 2}
+          aria-label="Next frame"
+        >
+          <StepForwardIcon aria-hidden="true" />
+        </Button>
+        <p className="text-sm tabular-nums">
+          Frame {frame + 1} / {frameCount}
+          <span className="ml-2 text-xs text-muted-foreground">{(frame / fps).toFixed(2)}s</span>
+        </p>
+      </div>
+
+      <div className="*:not-first:mt-4">
+        <Label className="text-sm font-medium">Timeline</Label>
+        <div>
+          <Slider
+            value={[frame]}
+            onValueChange={(value) => showFrame(value[0])}
+            min={0}
+            max={frameCount - 1}
+            step={1}
+            disabled={frameCount < 2}
+            aria-label="Timeline scrubber"
+          />
+          {/* Placed by position rather than spread out, so a thinned-out scale still lines up with the thumb */}
+          <span
+            className="relative mt-3 mx-2.5 block h-6 text-xs font-medium text-muted-foreground"
+            aria-hidden="true"
+          >
+            {ticks.map((tick) => (
+              <span
+                key={tick}
+                className="absolute top-0 flex w-0 flex-col items-center justify-center gap-2"
+                style={{ left: `${frameCount > 1 ? (tick / (frameCount - 1)) * 100 : 0}%` }}
+              >
+                <span className={cn("h-1 w-px bg-muted-foreground/70", tick % labelStep !== 0 && "h-0.5")} />
+                <span className={cn(tick % labelStep !== 0 && "opacity-0")}>{tick + 1}</span>
+              </span>
+            ))}
+          </span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-8">
+        <div className="*:not-first:mt-4">
+          <Label className="text-sm font-medium">Speed: {fps} FPS</Label>
+          <Slider
+            value={[fps]}
+            onValueChange={(value) => setFps(value[0])}
+            min={1}
+            max={MAX_FPS}
+            step={1}
+            aria-label="Playback speed slider"
+          />
+        </div>
+
+        <div className="flex flex-col gap-3">
+          <Label htmlFor="player-zoom" className="text-sm font-medium">Zoom</Label>
+          <select
+            id="player-zoom"
+            value={zoom}
+            onChange={(e) => setZoom(Number(e.target.value))}
+            className={selectClassName}
+          >
+            {ZOOM_LEVELS.map((level) => (
+              <option key={level} value={level}>
+                {level === 0 ? 'Fit to panel' : `${level}× (${width * level}×${height * level}px)`}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2" role="group" aria-label="Playback mode">
+        {(Object.keys(PLAYBACK_MODE_LABELS) as PlaybackMode[]).map((entry) => (
+          <Button
+            key={entry}
+            type="button"
+            size="sm"
+            variant={entry === mode ? "default" : "outline"}
+            onClick={() => setMode(entry)}
+          >
+            {PLAYBACK_MODE_LABELS[entry]}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SpriteStripPlayer;
@@ -0,0 +1,205 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { COMPANION_MAP_LABELS } from "@/lib/companion-maps";
+import { getFrameRect } from "@/lib/sprite-sheet";
+import type { CompanionMap, SheetChannel, SheetGeometry, SpriteStripData } from "@/types";
+
+interface SpriteStripViewerProps {
+  spriteStripUrl: string;
+  companionUrls?: SpriteStripData['companionUrls']; // adds a toggle between the colour strip and these
+  frameCount?: number;
+  layout?: SheetGeometry; // omit for a plain horizontal strip without padding
+  trim?: SpriteStripData['metadata']['trim']; // trimmed sheets play at the untrimmed frame size
+  pixelated?: boolean; // nearest-neighbour scaling, for pixel art and views zoomed past 1:1
+  hover?: boolean;
+  ratio?: SpriteStripData['ratio'];
+  className?: string;
+  frame?: number; // shows this frame instead of following the pointer, e.g. to sync several viewers
+  onFrameChange?: (frame: number) => void;
+}
+
+const getAspectRatioClass = (ratio: SpriteStripViewerProps['ratio']) => {
+  switch (ratio) {
+    case '16:9':
+      return 'aspect-video';
+    case '4:3':
+      return 'aspect-[4/3]';
+    case '1:1':
+      return 'aspect-square';
+    default:
+      return '';
+  }
+};
+
+/**
+ * Scales the whole sheet so one frame fills the container, then shifts it so
+ * the current frame's cell sits in view. Percentages keep it resolution free.
+ * `size` is the part of the cell the frame takes up, for trimmed frames.
+ */
+const getSheetFrameStyle = (
+  spriteStripUrl: string,
+  layout: SheetGeometry,
+  frame: number,
+  pixelated: boolean,
+  size: { width: number; height: number } = { width: layout.frameWidth, height: layout.frameHeight }
+): React.CSSProperties => {
+  const rect = getFrameRect(layout, frame);
+
+  return {
+    backgroundImage: `url(${spriteStripUrl})`,
+    backgroundSize: '100% 100%',
+    width: `${(layout.sheetWidth / size.width) * 100}%`,
+    height: `${(layout.sheetHeight / size.height) * 100}%`,
+    left: `${(-rect.x / size.width) * 100}%`,
+    top: `${(-rect.y / size.height) * 100}%`,
+    ...(pixelated && { imageRendering: 'pixelated' }),
+  };
+};
+
+// Where a trimmed frame sat in the untrimmed frame, as a share of the container
+const getTrimBoxStyle = (
+  trim: NonNullable<SpriteStripViewerProps['trim']>,
+  rect: NonNullable<SpriteStripViewerProps['trim']>['frames'][number]
+): React.CSSProperties => ({
+  left: `${(rect.x / trim.sourceWidth) * 100}%`,
+  top: `${(rect.y / trim.sourceHeight) * 100}%`,
+  width: `${(rect.width / trim.sourceWidth) * 100}%`,
+  height: `${(rect.height / trim.sourceHeight) * 100}%`,
+});
+
+const SpriteStripViewer: React.FC<SpriteStripViewerProps> = ({
+  spriteStripUrl,
+  companionUrls,
+  frameCount = 18,
+  layout,
+  trim,
+  pixelated = false,
+  hover = true,
+  ratio = '16:9',
+  className = "",
+  frame,
+  onFrameChange,
+}) => {
+  const [hoverFrame, setHoverFrame] = useState(0);
+  const [channel, setChannel] = useState<SheetChannel>('color');
+  const [imageError, setImageError] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const frames = Math.max(1, frameCount);
+  // Custom and auto frames have no preset shape, so they take it from the sheet
+  const aspectRatioClass = getAspectRatioClass(ratio);
+  const currentFrame = frame !== undefined ? Math.max(0, Math.min(frame, frames - 1)) : hoverFrame;
+  const trimmedFrame = trim?.frames[currentFrame];
+  const channels = Object.keys(companionUrls ?? {}) as CompanionMap[];
+  // A sheet without the chosen map falls back to its colours
+  const shownChannel = channel !== 'color' && companionUrls?.[channel] ? channel : 'color';
+  const shownUrl = shownChannel === 'color' ? spriteStripUrl : (companionUrls?.[shownChannel] as string);
+
+  // Reset state when the strip changes
+  useEffect(() => {
+    setImageError(false);
+    setHoverFrame(0);
+  }, [spriteStripUrl, frames]);
+
+  // Detect broken strip URLs, which a CSS background cannot report
+  useEffect(() => {
+    if (!shownUrl) return;
+    setImageError(false);
+    const img = new Image();
+    img.onerror = () => setImageError(true);
+    img.src = shownUrl;
+  }, [shownUrl]);
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!hover || !containerRef.current) return;
+
+    const rect = containerRef.current.getBoundingClientRect();
+    const percentage = Math.max(0, Math.min(e.clientX - rect.left, rect.width)) / rect.width;
+    const next = Math.max(0, Math.min(Math.floor(percentage * frames), frames - 1));
+
+    setHoverFrame(next);
+    onFrameChange?.(next);
+  };
+
+  const handleMouseLeave = () => {
+    if (!hover) return;
+    setHoverFrame(0);
+    onFrameChange?.(0);
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative overflow-hidden ${aspectRatioClass} ${className}`}
+      style={
+        aspectRatioClass
+          ? undefined
+          : trim
+            ? { aspectRatio: `${trim.sourceWidth} / ${trim.sourceHeight}` }
+            : layout
+              ? { aspectRatio: `${layout.frameWidth} / ${layout.frameHeight}` }
+              : undefined
+      }
+      onMouseMove={handleMouseMove}
+      onMouseLeave={handleMouseLeave}
+    >
+      {layout && trimmedFrame && trim ? (
+        // Each trimmed frame sits at its own offset, so the model holds still
+        <div className="absolute overflow-hidden" style={getTrimBoxStyle(trim, trimmedFrame)}>
+          <div
+            className="absolute bg-no-repeat"
+            style={getSheetFrameStyle(shownUrl, layout, currentFrame, pixelated, trimmedFrame)}
+          />
+        </div>
+      ) : layout ? (
+        <div
+          className="absolute bg-no-repeat"
+          style={getSheetFrameStyle(shownUrl, layout, currentFrame, pixelated)}
+        />
+      ) : (
+        <div
+          className="h-full w-full bg-no-repeat"
+          style={{
+            backgroundImage: `url(${shownUrl})`,
+            backgroundPosition: `${frames > 1 ? (currentFrame / (frames - 1)) * 100 : 0}% 0%`,
+            backgroundSize: `${frames * 100}% 100%`,
+            ...(pixelated && { imageRendering: 'pixelated' }),
+          }}
+        />
+      )}
+
+      {channels.length > 0 && (
+        <div
+          className="absolute top-2 right-2 flex gap-1 rounded-md bg-background/80 p-1 shadow-sm"
+          role="group"
+          aria-label="Shown channel"
+        >
+          {(['color', ...channels] as SheetChannel[]).map((entry) => (
+            <Button
+              key={entry}
+              type="button"
+              size="sm"
+              variant={entry === shownChannel ? "default" : "ghost"}
+              onClick={() => setChannel(entry)}
+              className="h-6 px-2 text-xs"
+            >
+              {entry === 'color' ? 'Colour' : COMPANION_MAP_LABELS[entry]}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {imageError && (
+        <div className="absolute inset-0 flex h-full w-full items-center justify-center bg-gray-100">
+          <div className="flex flex-col items-center gap-2 text-center">
+            <div className="text-sm text-gray-600">Image not available</div>
+            <div className="text-xs text-gray-500">Check the image URL</div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SpriteStripViewer;
@@ -0,0 +1,96 @@
+"use client";
+
+import React from "react";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { SETTINGS_LIMITS } from "@/lib/generation-settings";
+import type { PivotMode, TrimSettings } from "@/types";
+
+interface TrimControlsProps {
+  value: TrimSettings;
+  onChange: (trim: TrimSettings) => void;
+  selectClassName?: string;
+  className?: string;
+}
+
+const TrimControls: React.FC<TrimControlsProps> = ({ value, onChange, selectClassName = "", className = "" }) => {
+  const update = (patch: Partial<TrimSettings>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      <h3 className="text-lg font-medium text-gray-900">Trim &amp; Pivot</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-8">
+        <div className="flex flex-col gap-3">
+          <label className="flex items-center gap-2 text-sm font-medium">
+            <input
+              type="checkbox"
+              checked={value.enabled}
+              onChange={(e) => update({ enabled: e.target.checked })}
+            />
+            Trim frames to their content
+          </label>
+          {value.enabled && (
+            <div className="*:not-first:mt-4">
+              <Label className="text-sm font-medium">Padding: {value.padding}px</Label>
+              <Slider
+                value={[value.padding]}
+                onValueChange={(next) => update({ padding: next[0] })}
+                min={SETTINGS_LIMITS.trimPadding.min}
+                max={SETTINGS_LIMITS.trimPadding.max}
+                step={1}
+                aria-label="Trim padding slider"
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-col gap-3">
+          <Label htmlFor="frame-pivot" className="text-sm font-medium">Pivot</Label>
+          <select
+            id="frame-pivot"
+            value={value.pivot}
+            onChange={(e) => update({ pivot: e.target.value as PivotMode })}
+            className={selectClassName}
+          >
+            <option value="center">Centre</option>
+            <option value="bottom-center">Feet (bottom centre)</option>
+            <option value="custom">Custom</option>
+          </select>
+        </div>
+
+        {value.pivot === 'custom' && (
+          <>
+            <div className="*:not-first:mt-4">
+              <Label className="text-sm font-medium">Pivot X: {Math.round(value.pivotX * 100)}%</Label>
+              <Slider
+                value={[value.pivotX]}
+                onValueChange={(next) => update({ pivotX: next[0] })}
+                min={SETTINGS_LIMITS.pivot.min}
+                max={SETTINGS_LIMITS.pivot.max}
+                step={0.01}
+                aria-label="Pivot X slider"
+              />
+            </div>
+            <div className="*:not-first:mt-4">
+              <Label className="text-sm font-medium">Pivot Y: {Math.round(value.pivotY * 100)}%</Label>
+              <Slider
+                value={[value.pivotY]}
+                onValueChange={(next) => update({ pivotY: next[0] })}
+                min={SETTINGS_LIMITS.pivot.min}
+                max={SETTINGS_LIMITS.pivot.max}
+                step={0.01}
+                aria-label="Pivot Y slider"
+              />
+            </div>
+          </>
+        )}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Trimmed frames keep the offset of their bounds in the untrimmed frame, so atlases and the preview put them back in place. The pivot is measured across the whole frame from the top left; the feet sit at the lowest pixel of the sheet.
+      </p>
+    </div>
+  );
+};
+
+export default TrimControls;
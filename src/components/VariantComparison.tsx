@@ -0,0 +1,161 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { PauseIcon, PlayIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import SpriteStripViewer from "@/components/SpriteStripViewer";
+import type { VariantRun } from "@/hooks/use-sprite-strip-generator";
+import { downloadBlob } from "@/lib/download";
+import { getPreviewBackground } from "@/lib/preview-background";
+import { createVariantSheet, createVariantZip, serializeVariantSheet } from "@/lib/variant-sheet";
+
+interface VariantComparisonProps {
+  runs: VariantRun[];
+  className?: string;
+}
+
+// Turntables have no clip rate of their own
+const DEFAULT_FPS = 12;
+
+const VariantComparison: React.FC<VariantComparisonProps> = ({ runs, className = "" }) => {
+  // Animation mode renders several clips per variant; they are compared clip by clip
+  const [group, setGroup] = useState(0);
+  const [frame, setFrame] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [exporting, setExporting] = useState<'sheet' | 'files' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const groupCount = Math.min(...runs.map((run) => run.strips.length));
+  const groupIndex = Math.min(group, groupCount - 1);
+  const strips = runs.map((run) => run.strips[groupIndex]);
+  const first = strips[0];
+  const frameCount = Math.max(1, ...strips.map((strip) => strip.frameCount));
+  const fps = first.metadata.animation?.fps || DEFAULT_FPS;
+
+  useEffect(() => {
+    setFrame(0);
+  }, [runs, groupIndex]);
+
+  // One clock drives every row, so the variants never drift apart
+  useEffect(() => {
+    if (!isPlaying || frameCount < 2) return;
+    const timer = setInterval(() => setFrame((prev) => (prev + 1) % frameCount), 1000 / Math.min(fps, 60));
+    return () => clearInterval(timer);
+  }, [isPlaying, frameCount, fps]);
+
+  const modelTitle = first.metadata.originalFileName.replace(/\.[^/.]+$/, "");
+  const clip = first.metadata.animation?.clip;
+  const exportTitle = `${modelTitle}${clip ? ` - ${clip}` : ''} - variants`;
+
+  const handleExport = async (kind: 'sheet' | 'files') => {
+    setError(null);
+    setExporting(kind);
+
+    try {
+      if (kind === 'sheet') {
+        const sheet = await createVariantSheet(strips);
+        const imageFileName = `${exportTitle}.png`;
+        downloadBlob(sheet.blob, imageFileName);
+        downloadBlob(
+          new Blob([serializeVariantSheet(imageFileName, sheet)], { type: 'application/json' }),
+          `${exportTitle}.variants.json`
+        );
+      } else {
+        downloadBlob(await createVariantZip(strips), `${exportTitle}.zip`);
+      }
+    } catch (err) {
+      console.error('Variant export failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export the variants');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <h3 className="text-sm font-medium text-gray-700">Texture Variants ({runs.length})</h3>
+
+      {groupCount > 1 && (
+        <div className="flex flex-wrap gap-2" role="group" aria-label="Compared clip">
+          {runs[0].strips.slice(0, groupCount).map((strip, index) => (
+            <Button
+              key={strip.id}
+              type="button"
+              size="sm"
+              variant={index === groupIndex ? "default" : "outline"}
+              onClick={() => setGroup(index)}
+            >
+              {strip.metadata.animation?.clip ?? `Sheet ${index + 1}`}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      <ul className="space-y-2">
+        {strips.map((strip, index) => (
+          <li key={strip.id} className="flex items-center gap-3">
+            <p className="w-32 shrink-0 truncate text-sm" title={runs[index].texture}>{runs[index].texture}</p>
+            <div className="w-48 overflow-hidden rounded border" style={getPreviewBackground(strip.metadata)}>
+              <SpriteStripViewer
+                spriteStripUrl={strip.spriteStripUrl}
+                frameCount={strip.frameCount}
+                layout={strip.metadata.layout}
+                trim={strip.metadata.trim}
+                pixelated={strip.metadata.pixelScale !== undefined}
+                ratio={strip.ratio}
+                hover={false}
+                frame={frame}
+              />
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex items-center gap-3">
+        <Button
+          type="button"
+          size="icon"
+          variant="outline"
+          onClick={() => setIsPlaying((prev) => !prev)}
+          aria-label={isPlaying ? 'Pause variants' : 'Play variants'}
+        >
+          {isPlaying ? <PauseIcon aria-hidden="true" /> : <PlayIcon aria-hidden="true" />}
+        </Button>
+        <div className="flex-1 *:not-first:mt-2">
+          <Label className="text-sm font-medium">Frame: {frame + 1} / {frameCount}</Label>
+          <Slider
+            value={[frame]}
+            onValueChange={(value) => {
+              setIsPlaying(false);
+              setFrame(value[0]);
+            }}
+            min={0}
+            max={frameCount - 1}
+            step={1}
+            aria-label="Variant frame slider"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" variant="outline" disabled={exporting !== null} onClick={() => handleExport('sheet')}>
+          {exporting === 'sheet' ? 'Combining...' : 'Download Combined Sheet'}
+        </Button>
+        <Button type="button" variant="outline" disabled={exporting !== null} onClick={() => handleExport('files')}>
+          {exporting === 'files' ? 'Packing...' : 'Download Separate Files'}
+        </Button>
+      </div>
+
+      {error && (
+        <p className="text-red-600 text-sm">{error}</p>
+      )}
+      <p className="text-xs text-muted-foreground">
+        The combined sheet stacks one variant per row, top to bottom; its .variants.json lists where each one starts.
+      </p>
+    </div>
+  );
+};
+
+export default VariantComparison;
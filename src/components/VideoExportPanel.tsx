@@ -0,0 +1,165 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { downloadBlob } from "@/lib/download";
+import { extractFrames } from "@/lib/sprite-sheet";
+import {
+  encodeWebm,
+  getSupportedWebmCodecs,
+  getVideoSize,
+  type WebmCodec,
+} from "@/lib/video-export";
+import type { SpriteStripData } from "@/types";
+
+interface VideoExportPanelProps {
+  data: SpriteStripData;
+  selectClassName?: string;
+  className?: string;
+}
+
+const RESOLUTION_OPTIONS = [360, 480, 720, 1080];
+
+const VideoExportPanel: React.FC<VideoExportPanelProps> = ({ data, selectClassName = "", className = "" }) => {
+  const [fps, setFps] = useState<number>(24);
+  const [loops, setLoops] = useState<number>(3);
+  const [height, setHeight] = useState<number>(720);
+  const [codecs, setCodecs] = useState<WebmCodec[]>([]);
+  const [codec, setCodec] = useState<WebmCodec | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // MediaRecorder only exists in the browser, so detect codecs after mount
+  useEffect(() => {
+    const supported = getSupportedWebmCodecs();
+    setCodecs(supported);
+    setCodec(supported[0] ?? null);
+  }, []);
+
+  const size = getVideoSize(data.metadata.width, data.metadata.height, height);
+  const duration = (data.frameCount * loops) / fps;
+
+  const handleExport = async () => {
+    if (!codec) return;
+    setError(null);
+    setProgress(0);
+
+    try {
+      const frames = await extractFrames(data.spriteStripUrl, data.metadata.layout, data.frameCount, data.metadata.trim);
+      const blob = await encodeWebm(frames, {
+        fps,
+        loops,
+        height,
+        codec,
+        background: data.metadata.backgroundColor,
+        onProgress: setProgress,
+      });
+      downloadBlob(blob, `${data.title || 'sprite'}.webm`);
+    } catch (err) {
+      console.error('Video export failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export video');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <h3 className="text-sm font-medium text-gray-700">Turntable Video</h3>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="*:not-first:mt-4">
+          <Label className="text-sm font-medium">FPS: {fps}</Label>
+          <Slider
+            value={[fps]}
+            onValueChange={(value) => setFps(value[0])}
+            min={1}
+            max={60}
+            step={1}
+            aria-label="Video frames per second"
+          />
+        </div>
+
+        <div className="flex flex-col gap-3">
+          <Label htmlFor="video-loops" className="text-sm font-medium">Loops</Label>
+          <Input
+            id="video-loops"
+            type="number"
+            min={1}
+            max={20}
+            step={1}
+            value={loops}
+            onChange={(e) => setLoops(Math.min(20, Math.max(1, Math.round(Number(e.target.value) || 1))))}
+            className="h-10"
+          />
+        </div>
+
+        <div className="flex flex-col gap-3">
+          <Label htmlFor="video-resolution" className="text-sm font-medium">Resolution</Label>
+          <select
+            id="video-resolution"
+            value={height}
+            onChange={(e) => setHeight(Number(e.target.value))}
+            className={selectClassName}
+          >
+            {RESOLUTION_OPTIONS.map((option) => {
+              const optionSize = getVideoSize(data.metadata.width, data.metadata.height, option);
+              return (
+                <option key={option} value={option}>
+                  {option}p ({optionSize.width}×{optionSize.height})
+                </option>
+              );
+            })}
+          </select>
+        </div>
+
+        <div className="flex flex-col gap-3">
+          <Label htmlFor="video-codec" className="text-sm font-medium">Codec</Label>
+          <select
+            id="video-codec"
+            value={codec ?? ''}
+            onChange={(e) => setCodec(e.target.value as WebmCodec)}
+            disabled={codecs.length === 0}
+            className={selectClassName}
+          >
+            {codecs.length === 0 && <option value="">Not supported</option>}
+            {codecs.map((option) => (
+              <option key={option} value={option}>
+                WebM ({option.toUpperCase()})
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-4">
+        <Button
+          type="button"
+          variant="outline"
+          disabled={progress !== null || !codec}
+          onClick={handleExport}
+        >
+          {progress !== null
+            ? `Recording... ${Math.round(progress * 100)}%`
+            : 'Download Video'}
+        </Button>
+        <p className="text-xs text-muted-foreground">
+          {size.width}×{size.height}, {duration.toFixed(1)}s
+        </p>
+      </div>
+
+      {codecs.length === 0 && (
+        <p className="text-xs text-amber-600">This browser cannot record WebM video.</p>
+      )}
+
+      {error && (
+        <p className="text-red-600 text-sm">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default VideoExportPanel;
@@ -0,0 +1,34 @@
+declare module "gifenc" {
+  export type Palette = number[][];
+  export type ColorFormat = "rgb565" | "rgb444" | "rgba4444";
+
+  export interface QuantizeOptions {
+    format?: ColorFormat;
+    oneBitAlpha?: boolean | number;
+    clearAlpha?: boolean;
+    clearAlphaThreshold?: number;
+    clearAlphaColor?: number;
+  }
+
+  export interface WriteFrameOptions {
+    palette?: Palette;
+    first?: boolean;
+    transparent?: boolean;
+    transparentIndex?: number;
+    delay?: number; // milliseconds
+    repeat?: number; // -1 once, 0 forever, N repetitions
+    dispose?: number;
+  }
+
+  export interface GIFStream {
+    writeFrame(index: Uint8Array, width: number, height: number, options?: WriteFrameOptions): void;
+    finish(): void;
+    bytes(): Uint8Array;
+    bytesView(): Uint8Array;
+    reset(): void;
+  }
+
+  export function GIFEncoder(options?: { auto?: boolean; initialCapacity?: number }): GIFStream;
+  export function quantize(rgba: Uint8Array | Uint8ClampedArray, maxColors: number, options?: QuantizeOptions): Palette;
+  export function applyPalette(rgba: Uint8Array | Uint8ClampedArray, palette: Palette, format?: ColorFormat): Uint8Array;
+}
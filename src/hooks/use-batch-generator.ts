@@ -0,0 +1,163 @@
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+import {
+  renderSheets,
+  type GenerationSource,
+  type UseSpriteStripGeneratorOptions,
+} from "@/hooks/use-sprite-strip-generator";
+import { getCompanionFileName } from "@/lib/companion-maps";
+import { pickModelResources } from "@/lib/model-resources";
+import { createPaletteLock } from "@/lib/pixel-art";
+import { createZip, textEntry, uniqueEntryName, urlEntry, type ZipEntry } from "@/lib/zip";
+import type { CompanionMap, SpriteStripData } from "@/types";
+
+export type BatchItemStatus = 'pending' | 'rendering' | 'done' | 'failed';
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  resourceFiles?: File[]; // the .bin, .mtl and texture files the model refers to, once it renders
+  status: BatchItemStatus;
+  progress: number; // 0-100
+  results?: SpriteStripData[]; // one sheet, or one per clip in animation mode
+  error?: string;
+}
+
+export const useBatchGenerator = () => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isStopping, setIsStopping] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const updateItem = useCallback((id: string, patch: Partial<BatchItem>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+  }, []);
+
+  const enqueue = useCallback((files: { id: string; file: File }[]) => {
+    setItems((prev) => [
+      ...prev,
+      ...files.map(({ id, file }) => ({ id, file, status: 'pending' as const, progress: 0 })),
+    ]);
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    setItems((prev) => prev.filter((item) => item.id !== id));
+  }, []);
+
+  const clear = useCallback(() => {
+    setItems([]);
+  }, []);
+
+  /**
+   * Renders every pending or failed item one after another with the given
+   * settings, and the textures and environment map shared by all of them.
+   * Each model takes the files it refers to from `resourcePool`. A model that
+   * fails is marked as such and the queue moves on. Stopping abandons the
+   * model being rendered, which goes back to pending.
+   */
+  const start = useCallback(async (
+    queue: BatchItem[],
+    options: UseSpriteStripGeneratorOptions,
+    shared: Pick<GenerationSource, 'textures' | 'materialTextures' | 'environmentFile'> = {},
+    resourcePool: File[] = []
+  ) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    // A locked palette is shared by every model in the batch
+    const batchOptions = { ...options, paletteLock: createPaletteLock(), signal: controller.signal };
+
+    try {
+      for (const item of queue) {
+        if (controller.signal.aborted) break;
+        if (item.status === 'done') continue;
+
+        updateItem(item.id, { status: 'rendering', progress: 0, error: undefined });
+        try {
+          const resourceFiles = await pickModelResources(item.file, resourcePool);
+          updateItem(item.id, { resourceFiles });
+          const results = await renderSheets({ ...shared, modelFile: item.file, resourceFiles }, batchOptions, (progress) => {
+            updateItem(item.id, { progress });
+          });
+          updateItem(item.id, { status: 'done', progress: 100, results });
+        } catch (err) {
+          if (controller.signal.aborted) {
+            updateItem(item.id, { status: 'pending', progress: 0 });
+            break;
+          }
+          console.error(`Batch item ${item.file.name} failed:`, err);
+          updateItem(item.id, {
+            status: 'failed',
+            error: err instanceof Error ? err.message : 'Failed to generate sprite strip',
+          });
+        }
+      }
+    } finally {
+      abortRef.current = null;
+      setIsRunning(false);
+      setIsStopping(false);
+    }
+  }, [updateItem]);
+
+  const cancel = useCallback(() => {
+    if (!abortRef.current) return;
+    setIsStopping(true);
+    abortRef.current.abort();
+  }, []);
+
+  return {
+    items,
+    isRunning,
+    isStopping,
+    enqueue,
+    remove,
+    clear,
+    start,
+    cancel,
+  };
+};
+
+/**
+ * Packs every sheet of the finished items into one ZIP, each with its
+ * companion strips, and a manifest listing the settings of each sheet and
+ * the models that failed.
+ */
+export async function createBatchZip(items: BatchItem[]): Promise<Blob> {
+  const usedNames = new Set<string>();
+  const entries: ZipEntry[] = [];
+  const manifest: {
+    file: string;
+    source: string;
+    maps?: Partial<Record<CompanionMap, string>>; // companion strip file names
+    metadata?: SpriteStripData['metadata'];
+    error?: string;
+  }[] = [];
+
+  for (const item of items) {
+    if (item.status === 'done' && item.results) {
+      for (const result of item.results) {
+        const title = result.title || 'sprite';
+        const name = uniqueEntryName(`${title}.png`, usedNames);
+        entries.push(await urlEntry(name, result.spriteStripUrl));
+        const maps: Partial<Record<CompanionMap, string>> = {};
+        for (const [map, url] of Object.entries(result.companionUrls ?? {}) as [CompanionMap, string][]) {
+          const mapName = uniqueEntryName(getCompanionFileName(title, map), usedNames);
+          entries.push(await urlEntry(mapName, url));
+          maps[map] = mapName;
+        }
+        manifest.push({
+          file: name,
+          source: item.file.name,
+          ...(Object.keys(maps).length > 0 && { maps }),
+          metadata: result.metadata,
+        });
+      }
+    } else if (item.status === 'failed') {
+      manifest.push({ file: '', source: item.file.name, error: item.error });
+    }
+  }
+
+  entries.push(textEntry(uniqueEntryName('manifest.json', usedNames), JSON.stringify(manifest, null, 2)));
+  return createZip(entries);
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type * as THREE from "three";
+import { loadEnvironmentMap } from "@/lib/environment";
+import type { EnvironmentMap } from "@/types";
+
+/**
+ * Keeps the chosen environment map loaded for the live preview, reloading
+ * when the map or the uploaded file changes and disposing the one it replaces.
+ */
+export const useEnvironmentMap = (map: EnvironmentMap, file?: File | null) => {
+  const [texture, setTexture] = useState<THREE.Texture | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Waiting for an upload is not an error
+    if (map === 'none' || (map === 'custom' && !file)) {
+      setTexture(null);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    let loaded: THREE.Texture | null = null;
+    setIsLoading(true);
+    setError(null);
+
+    loadEnvironmentMap(map, file)
+      .then((result) => {
+        loaded = result;
+        if (cancelled) result?.dispose();
+        else setTexture(result);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setTexture(null);
+          setError(err instanceof Error ? err.message : 'This environment map could not be loaded');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      loaded?.dispose();
+    };
+  }, [map, file]);
+
+  return { texture, isLoading, error };
+};
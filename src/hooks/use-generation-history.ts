@@ -0,0 +1,190 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { GenerationSource } from "@/hooks/use-sprite-strip-generator";
+import { parseGenerationSettings } from "@/lib/generation-settings";
+import {
+  clearHistory,
+  deleteHistoryEntry,
+  getEntrySize,
+  getStorageEstimate,
+  listHistoryEntries,
+  putHistoryEntry,
+} from "@/lib/history-db";
+import type { CompanionMap, GenerationSettings, HistoryEntry, SpriteStripData } from "@/types";
+
+export interface HistoryItem {
+  entry: HistoryEntry;
+  imageUrl: string; // object URL of the stored sheet, valid while the item is listed
+  companionUrls?: SpriteStripData['companionUrls']; // object URLs of the stored companion strips, likewise
+  size: number;
+}
+
+type ItemUrls = Pick<HistoryItem, 'imageUrl' | 'companionUrls'>;
+
+const revokeUrls = ({ imageUrl, companionUrls }: ItemUrls) => {
+  URL.revokeObjectURL(imageUrl);
+  Object.values(companionUrls ?? {}).forEach((url) => URL.revokeObjectURL(url));
+};
+
+const hasCompanions = (entry: HistoryEntry) => Object.keys(entry.companions ?? {}).length > 0;
+
+export const useGenerationHistory = () => {
+  const [items, setItems] = useState<HistoryItem[]>([]);
+  const [storage, setStorage] = useState<{ usage: number; quota: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const urlsRef = useRef<Map<string, ItemUrls>>(new Map());
+
+  const toItem = useCallback((entry: HistoryEntry): HistoryItem => {
+    let urls = urlsRef.current.get(entry.id);
+    if (!urls) {
+      urls = {
+        imageUrl: URL.createObjectURL(entry.image),
+        ...(hasCompanions(entry) && {
+          companionUrls: Object.fromEntries(
+            Object.entries(entry.companions ?? {}).map(([map, blob]) => [map, URL.createObjectURL(blob)])
+          ),
+        }),
+      };
+      urlsRef.current.set(entry.id, urls);
+    }
+    return { entry, ...urls, size: getEntrySize(entry) };
+  }, []);
+
+  const releaseUrl = (id: string) => {
+    const urls = urlsRef.current.get(id);
+    if (urls) {
+      revokeUrls(urls);
+      urlsRef.current.delete(id);
+    }
+  };
+
+  const refreshStorage = useCallback(async () => {
+    setStorage(await getStorageEstimate());
+  }, []);
+
+  const handleError = (err: unknown, fallback: string) => {
+    console.error(fallback, err);
+    setError(err instanceof Error ? err.message : fallback);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    listHistoryEntries()
+      .then((entries) => {
+        // Entries from older versions get any settings added since filled with defaults
+        if (!cancelled) {
+          setItems(entries.map((entry) => toItem({
+            ...entry,
+            settings: parseGenerationSettings(entry.settings).settings,
+          })));
+        }
+      })
+      .catch((err) => handleError(err, 'Failed to load history'))
+      .finally(() => refreshStorage());
+
+    const urls = urlsRef.current;
+    return () => {
+      cancelled = true;
+      urls.forEach(revokeUrls);
+      urls.clear();
+    };
+  }, [toItem, refreshStorage]);
+
+  const save = useCallback(async (
+    data: SpriteStripData,
+    settings: GenerationSettings,
+    source: GenerationSource
+  ) => {
+    try {
+      const image = await (await fetch(data.spriteStripUrl)).blob();
+      const companions: HistoryEntry['companions'] = {};
+      for (const [map, url] of Object.entries(data.companionUrls ?? {}) as [CompanionMap, string][]) {
+        companions[map] = await (await fetch(url)).blob();
+      }
+      const entry: HistoryEntry = {
+        id: data.id,
+        title: data.title,
+        createdAt: data.createdAt,
+        // Object URLs do not survive a reload, so they are left out of the stored record
+        data: {
+          id: data.id,
+          title: data.title,
+          description: data.description,
+          frameCount: data.frameCount,
+          ratio: data.ratio,
+          createdAt: data.createdAt,
+          tags: data.tags,
+          metadata: data.metadata,
+        },
+        image,
+        ...(Object.keys(companions).length > 0 && { companions }),
+        settings,
+        model: source.modelFile,
+        textures: source.textures,
+        materialTextures: source.materialTextures,
+        resources: source.resourceFiles,
+        environment: source.environmentFile,
+      };
+
+      await putHistoryEntry(entry);
+      setItems((prev) => [toItem(entry), ...prev.filter((item) => item.entry.id !== entry.id)]);
+      setError(null);
+    } catch (err) {
+      handleError(err, 'Failed to save to history');
+    } finally {
+      refreshStorage();
+    }
+  }, [toItem, refreshStorage]);
+
+  const remove = useCallback(async (id: string) => {
+    try {
+      await deleteHistoryEntry(id);
+      setItems((prev) => prev.filter((item) => item.entry.id !== id));
+      releaseUrl(id);
+    } catch (err) {
+      handleError(err, 'Failed to delete history entry');
+    } finally {
+      refreshStorage();
+    }
+  }, [refreshStorage]);
+
+  const clear = useCallback(async () => {
+    try {
+      await clearHistory();
+      // Every listed item has its URLs here, so nothing is left to revoke afterwards
+      urlsRef.current.forEach(revokeUrls);
+      urlsRef.current.clear();
+      setItems([]);
+    } catch (err) {
+      handleError(err, 'Failed to clear history');
+    } finally {
+      refreshStorage();
+    }
+  }, [refreshStorage]);
+
+  // Rebuilds the displayable sprite strip data from a stored entry. Entries
+  // saved before companion strips were kept drop them from the metadata too,
+  // so exports do not describe maps they cannot include.
+  const toSpriteStripData = useCallback((item: HistoryItem): SpriteStripData => {
+    const { data } = item.entry;
+    return {
+      ...data,
+      spriteStripUrl: item.imageUrl,
+      ...(item.companionUrls
+        ? { companionUrls: item.companionUrls }
+        : { metadata: { ...data.metadata, companions: undefined } }),
+      modelUrl: '',
+    };
+  }, []);
+
+  return {
+    items,
+    storage,
+    error,
+    save,
+    remove,
+    clear,
+    toSpriteStripData,
+  };
+};
@@ -0,0 +1,114 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type * as THREE from "three";
+import { clone as cloneSkinned } from "three/examples/jsm/utils/SkeletonUtils.js";
+import {
+  applyTexturesToModel,
+  disposeObject,
+  listModelMaterials,
+  loadModel,
+  type ModelMaterialInfo,
+} from "@/hooks/use-sprite-strip-generator";
+import { hasTextures } from "@/lib/texture-slots";
+import type { TextureSet } from "@/types";
+
+/**
+ * Keeps the chosen model loaded for the live preview, the animation clip
+ * list and the material list. The file is only parsed again when the model
+ * or its companion files change; textures go on a copy that shares the
+ * loaded geometry. `materials` describes the model as loaded, before any
+ * textures were applied. Whatever is replaced is freed on the GPU.
+ */
+export const useLoadedModel = (
+  modelFile: File | null,
+  resourceFiles?: File[],
+  textures?: TextureSet,
+  materialTextures?: Record<string, File | null>
+) => {
+  const [loaded, setLoaded] = useState<THREE.Object3D | null>(null);
+  const [model, setModel] = useState<THREE.Object3D | null>(null);
+  const [materials, setMaterials] = useState<ModelMaterialInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoaded(null);
+    if (!modelFile) {
+      setMaterials([]);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    (async () => {
+      try {
+        const next = await loadModel(modelFile, resourceFiles);
+        if (cancelled) {
+          disposeObject(next);
+          return;
+        }
+        setLoaded(next);
+        setMaterials(listModelMaterials(next));
+      } catch (err) {
+        console.error('Failed to load model preview:', err);
+        if (!cancelled) {
+          setMaterials([]);
+          setError(err instanceof Error ? err.message : 'This model could not be loaded for preview');
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [modelFile, resourceFiles]);
+
+  // Copies made for the previous textures share the geometry, so this goes last
+  useEffect(() => {
+    if (!loaded) return;
+    return () => disposeObject(loaded);
+  }, [loaded]);
+
+  useEffect(() => {
+    if (!loaded) {
+      setModel(null);
+      return;
+    }
+    if (!hasTextures(textures) && Object.keys(materialTextures ?? {}).length === 0) {
+      setModel(loaded);
+      return;
+    }
+
+    let cancelled = false;
+    const textured = cloneSkinned(loaded);
+    applyTexturesToModel(textured, textures ?? {}, materialTextures)
+      .catch((textureError) => {
+        console.warn('Failed to apply texture to preview:', textureError);
+      })
+      .then(() => {
+        if (cancelled) {
+          disposeObject(textured, loaded);
+        } else {
+          setModel(textured);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [loaded, textures, materialTextures]);
+
+  // A textured copy is freed once the preview has moved on from it; the loaded model keeps its own
+  useEffect(() => {
+    if (!model || !loaded || model === loaded) return;
+    return () => disposeObject(model, loaded);
+  }, [model, loaded]);
+
+  return { model, materials, isLoading: isLoading || (loaded !== null && model === null), error };
+};
@@ -0,0 +1,71 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  BUILT_IN_PRESETS,
+  createPresetId,
+  loadUserPresets,
+  parsePresetFile,
+  storeUserPresets,
+  type Preset,
+} from "@/lib/presets";
+import type { GenerationSettings } from "@/types";
+
+export const usePresets = () => {
+  const [userPresets, setUserPresets] = useState<Preset[]>([]);
+  // The latest list, so updates can be stored without side effects in a state updater
+  const userPresetsRef = useRef<Preset[]>([]);
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    userPresetsRef.current = loadUserPresets();
+    setUserPresets(userPresetsRef.current);
+  }, []);
+
+  const updateUserPresets = useCallback((update: (prev: Preset[]) => Preset[]) => {
+    const next = update(userPresetsRef.current);
+    userPresetsRef.current = next;
+    setUserPresets(next);
+    storeUserPresets(next);
+  }, []);
+
+  // Saving under an existing name overwrites that preset
+  const savePreset = useCallback((name: string, settings: GenerationSettings): Preset => {
+    const trimmed = name.trim();
+    const existing = userPresets.find((preset) => preset.name === trimmed);
+    const preset: Preset = { id: existing?.id ?? createPresetId(), name: trimmed, settings };
+
+    updateUserPresets((prev) => existing
+      ? prev.map((item) => (item.id === existing.id ? preset : item))
+      : [...prev, preset]);
+
+    return preset;
+  }, [userPresets, updateUserPresets]);
+
+  const deletePreset = useCallback((id: string) => {
+    updateUserPresets((prev) => prev.filter((preset) => preset.id !== id));
+  }, [updateUserPresets]);
+
+  const importPresets = useCallback(async (file: File) => {
+    const { presets, issues } = parsePresetFile(await file.text());
+
+    updateUserPresets((prev) => {
+      const byName = new Map(prev.map((preset) => [preset.name, preset]));
+      presets.forEach((preset) => {
+        const existing = byName.get(preset.name);
+        byName.set(preset.name, existing ? { ...preset, id: existing.id } : preset);
+      });
+      return Array.from(byName.values());
+    });
+
+    return { count: presets.length, issues };
+  }, [updateUserPresets]);
+
+  return {
+    presets: [...BUILT_IN_PRESETS, ...userPresets],
+    userPresets,
+    savePreset,
+    deletePreset,
+    importPresets,
+  };
+};
@@ -0,0 +1,1810 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import * as THREE from "three";
+import { GLTFLoader, type GLTF } from "three/examples/jsm/loaders/GLTFLoader.js";
+import { OBJLoader } from "three/examples/jsm/loaders/OBJLoader.js";
+import { MTLLoader } from "three/examples/jsm/loaders/MTLLoader.js";
+import { FBXLoader } from "three/examples/jsm/loaders/FBXLoader.js";
+import { clone as cloneSkinned } from "three/examples/jsm/utils/SkeletonUtils.js";
+import { fixEdgeFringe } from "@/lib/alpha-edges";
+import { createCompanionRenderer } from "@/lib/companion-maps";
+import { getFacingAngle, getSheetDirections } from "@/lib/directions";
+import { DEFAULT_ENVIRONMENT, loadEnvironmentMap } from "@/lib/environment";
+import {
+  DEFAULT_TRIM,
+  cropFrames,
+  getTrimCellSize,
+  getTrimRects,
+  measureFrames,
+  resolvePivot,
+  type FramePivot,
+  type SheetTrim,
+} from "@/lib/frame-trim";
+import { DEFAULT_LIGHTING } from "@/lib/lighting";
+import { DEFAULT_PIXEL_ART, createPaletteLock, processPixelArtFrames, type PaletteLock } from "@/lib/pixel-art";
+import {
+  createResourceManager,
+  getExtension,
+  listObjMaterialLibraries,
+  resolveResource,
+} from "@/lib/model-resources";
+import { DEFAULT_SHEET_LAYOUT, getCanvasSizeError, getFrameRect, resolveSheetGeometry } from "@/lib/sprite-sheet";
+import {
+  detectTextureSlot,
+  getMaterialTextureNames,
+  hasTextures,
+  resolveMaterialTextures,
+} from "@/lib/texture-slots";
+import type {
+  AnimationSettings,
+  AspectRatio,
+  BackgroundMode,
+  CameraSettings,
+  CompanionMap,
+  DirectionalSettings,
+  EnvironmentSettings,
+  FrameSize,
+  LightSettings,
+  MaterialTextureMap,
+  PixelArtSettings,
+  RotationSettings,
+  SheetGeometry,
+  SheetLayout,
+  SourceMode,
+  SpriteStripData,
+  TextureSet,
+  TextureSlot,
+  TrimSettings,
+} from "@/types";
+
+export interface LightingControls {
+  ambientLight?: { intensity?: number };
+  lights?: LightSettings[]; // defaults to a single key light
+}
+
+export interface GenerationSource {
+  modelFile: File;
+  textures?: TextureSet;
+  materialTextures?: File[]; // uploads the `materialTextures` option names
+  resourceFiles?: File[]; // .bin, .mtl and texture files the model refers to by relative path
+  environmentFile?: File; // used when the environment map is 'custom'
+  variant?: string; // name of the base colour texture when rendering every uploaded skin
+}
+
+// The sheets of one texture variant; animation mode makes one per clip
+export interface VariantRun {
+  texture: string;
+  strips: SpriteStripData[];
+}
+
+export interface UseSpriteStripGeneratorOptions {
+  onGenerate?: (data: SpriteStripData, source: GenerationSource) => void;
+  ratio?: AspectRatio;
+  frameSize?: Partial<FrameSize>; // 'custom': the frame in pixels; 'auto': the largest frame allowed
+  sourceMode?: SourceMode;
+  frameCount?: number;
+  rotation?: Partial<RotationSettings>;
+  animation?: Partial<AnimationSettings>;
+  directional?: Partial<DirectionalSettings>;
+  camera?: Partial<CameraSettings>;
+  layout?: Partial<SheetLayout>;
+  backgroundColor?: string;
+  backgroundOpacity?: number;
+  backgroundMode?: BackgroundMode;
+  fringeFix?: boolean;
+  maxTextures?: number;
+  acceptedFormats?: string[];
+  lighting?: LightingControls;
+  environment?: Partial<EnvironmentSettings>;
+  materialTextures?: MaterialTextureMap;
+  pixelArt?: Partial<PixelArtSettings>;
+  companionMaps?: CompanionMap[];
+  trim?: Partial<TrimSettings>;
+  paletteLock?: PaletteLock; // shared by the sheets of one run; see createPaletteLock
+  signal?: AbortSignal; // stops the run before its next frame
+}
+
+export const DEFAULT_FRAME_COUNT = 18;
+export const MIN_FRAME_COUNT = 1;
+export const MAX_FRAME_COUNT = 128;
+
+export const DEFAULT_ROTATION: RotationSettings = {
+  startAngle: 0,
+  endAngle: 360,
+  axis: 'y',
+  direction: 'counterclockwise',
+};
+
+export const DEFAULT_ANIMATION: AnimationSettings = {
+  clips: [],
+  sampling: 'fps',
+  fps: 12,
+  frameCount: 16,
+};
+
+export const DEFAULT_DIRECTIONAL: DirectionalSettings = {
+  directions: 8,
+};
+
+export const DEFAULT_CAMERA: CameraSettings = {
+  projection: 'perspective',
+  elevation: 0,
+  azimuth: 0,
+  fov: 50,
+  fitPadding: 0.5,
+  orthoZoom: 1,
+};
+
+// Models are normalised so their bounding diagonal is this long
+const MODEL_SIZE = 1.7;
+const MODEL_RADIUS = MODEL_SIZE / 2;
+
+type Dimensions = FrameSize;
+
+export type PresetRatio = Exclude<AspectRatio, 'custom' | 'auto'>;
+
+export const RATIO_DIMENSIONS: Record<PresetRatio, Dimensions> = {
+  '16:9': { width: 1920, height: 1080 },
+  '4:3': { width: 1600, height: 1200 },
+  '1:1': { width: 1080, height: 1080 },
+};
+
+export const DEFAULT_FRAME_SIZE: FrameSize = { width: 512, height: 512 };
+
+// 'auto' frames never get longer than this many times their width, or wider
+const MAX_AUTO_ASPECT = 8;
+
+/**
+ * Pixel size of one frame. Presets have fixed sizes and 'custom' uses the
+ * frame size as given. 'auto' is only known once the model has been
+ * measured, so this returns the largest frame it may produce.
+ */
+export const getFrameDimensions = (options: Pick<UseSpriteStripGeneratorOptions, 'ratio' | 'frameSize'>): Dimensions => {
+  const ratio = options.ratio ?? '16:9';
+  if (ratio === 'custom' || ratio === 'auto') return { ...DEFAULT_FRAME_SIZE, ...options.frameSize };
+  return RATIO_DIMENSIONS[ratio];
+};
+
+const resolveFrameCount = (frameCount?: number) =>
+  Math.min(MAX_FRAME_COUNT, Math.max(MIN_FRAME_COUNT, Math.round(frameCount ?? DEFAULT_FRAME_COUNT)));
+
+/**
+ * Returns the rotation (in degrees) of every frame. A full turn leaves out
+ * the end angle so the loop does not repeat its first frame; a partial arc
+ * includes both ends.
+ */
+export const getFrameAngles = (frameCount: number, rotation: RotationSettings): number[] => {
+  const count = Math.max(MIN_FRAME_COUNT, Math.round(frameCount));
+  const span = rotation.endAngle - rotation.startAngle;
+  const isFullTurn = Math.abs(span) % 360 === 0 && span !== 0;
+  const steps = isFullTurn || count === 1 ? count : count - 1;
+  const sign = rotation.direction === 'clockwise' ? -1 : 1;
+
+  return Array.from({ length: count }, (_, i) => {
+    const angle = rotation.startAngle + (span * i) / steps;
+    return sign * angle;
+  });
+};
+
+/**
+ * Returns the clip time (in seconds) of every frame. Clips loop, so the
+ * samples stop one step short of the end, which repeats the first pose.
+ */
+export const getClipFrameTimes = (duration: number, animation: AnimationSettings): number[] => {
+  const requested = animation.sampling === 'fps' ? duration * animation.fps : animation.frameCount;
+  const count = Math.min(MAX_FRAME_COUNT, Math.max(MIN_FRAME_COUNT, Math.round(requested)));
+  return Array.from({ length: count }, (_, i) => (duration * i) / count);
+};
+
+export interface AnimationClipInfo {
+  name: string;
+  duration: number; // seconds
+}
+
+// Clips are picked by name; unnamed ones get a stand-in that stays stable for the same file
+const getClipName = (clip: THREE.AnimationClip, index: number) => clip.name || `Clip ${index + 1}`;
+
+export const listAnimationClips = (model: THREE.Object3D): AnimationClipInfo[] =>
+  model.animations.map((clip, index) => ({ name: getClipName(clip, index), duration: clip.duration }));
+
+export const findAnimationClip = (model: THREE.Object3D, name: string): THREE.AnimationClip | undefined =>
+  model.animations.find((clip, index) => getClipName(clip, index) === name);
+
+/**
+ * The sheet the options would produce, so its size can be checked before
+ * rendering. Animation mode reports its longest clip, and 'auto' frames are
+ * taken at their largest.
+ */
+export const estimateSheetGeometry = (
+  options: UseSpriteStripGeneratorOptions,
+  clips: AnimationClipInfo[]
+): SheetGeometry => {
+  const dimensions = getFrameDimensions(options);
+  const layout = { ...DEFAULT_SHEET_LAYOUT, ...options.layout };
+  const animation = { ...DEFAULT_ANIMATION, ...options.animation };
+  const getClipFrameCount = (name?: string) => {
+    const clip = clips.find((entry) => entry.name === name);
+    return clip ? getClipFrameTimes(clip.duration, animation).length : 1;
+  };
+
+  if (options.sourceMode === 'directional') {
+    const { directions, clip } = { ...DEFAULT_DIRECTIONAL, ...options.directional };
+    const columns = clip ? getClipFrameCount(clip) : 1;
+    return resolveSheetGeometry(columns * directions, dimensions, {
+      mode: 'grid',
+      columns,
+      rows: directions,
+      padding: layout.padding,
+    });
+  }
+  const frameCount = options.sourceMode === 'animation'
+    ? Math.max(1, ...animation.clips.map(getClipFrameCount))
+    : resolveFrameCount(options.frameCount);
+  return resolveSheetGeometry(frameCount, dimensions, layout);
+};
+
+/**
+ * Binds a clip to a model copy from createRenderScene and returns a function
+ * that poses it at a given time in seconds.
+ */
+export const createClipPoser = (model: THREE.Object3D, clip: THREE.AnimationClip) => {
+  const mixer = new THREE.AnimationMixer(model);
+  mixer.clipAction(clip).play();
+  return (time: number) => {
+    mixer.setTime(time);
+  };
+};
+
+const resolveRotation = (rotation?: Partial<RotationSettings>): RotationSettings => ({
+  ...DEFAULT_ROTATION,
+  ...rotation,
+});
+
+export const resolveCamera = (camera?: Partial<CameraSettings>): CameraSettings => ({
+  ...DEFAULT_CAMERA,
+  ...camera,
+});
+
+/**
+ * Distance from the model centre to the camera. Auto-fit keeps the model's
+ * bounding sphere, grown by `fitPadding`, inside the narrower field of view,
+ * so the model stays in frame at every rotation and elevation. An
+ * orthographic camera's distance does not change the picture; it only has
+ * to sit outside the model.
+ */
+export const getCameraDistance = (camera: CameraSettings, aspectRatio: number): number => {
+  if (camera.projection === 'orthographic') {
+    return Math.max(camera.distance ?? 0, MODEL_RADIUS * 3);
+  }
+  if (camera.distance !== undefined) return camera.distance;
+
+  const halfVertical = THREE.MathUtils.degToRad(camera.fov) / 2;
+  const halfHorizontal = Math.atan(Math.tan(halfVertical) * aspectRatio);
+  return (MODEL_RADIUS * (1 + camera.fitPadding)) / Math.sin(Math.min(halfVertical, halfHorizontal));
+};
+
+interface SceneAssets {
+  model: THREE.Object3D;
+  environmentMap: THREE.Texture | null;
+}
+
+// Loads the source model, puts the optional textures on it and loads the environment map
+const loadSourceAssets = async (
+  source: GenerationSource,
+  options: UseSpriteStripGeneratorOptions
+): Promise<SceneAssets> => {
+  const model = await loadModel(source.modelFile, source.resourceFiles);
+
+  const mapping = options.materialTextures ?? {};
+  const materialTextures = resolveMaterialTextures(mapping, source.materialTextures ?? []);
+  const missing = getMaterialTextureNames(mapping).filter((name) => !source.materialTextures?.some((file) => file.name === name));
+  if (missing.length > 0) {
+    console.warn('Material textures not uploaded, those materials use the texture slots:', missing);
+  }
+
+  if (hasTextures(source.textures) || Object.keys(materialTextures).length > 0) {
+    try {
+      await applyTexturesToModel(model, source.textures ?? {}, materialTextures);
+    } catch (textureError) {
+      // Continue generation without texture rather than failing completely
+      console.warn('Failed to apply texture, continuing without texture:', textureError);
+    }
+  }
+
+  let environmentMap: THREE.Texture | null = null;
+  try {
+    environmentMap = await loadEnvironmentMap(options.environment?.map ?? DEFAULT_ENVIRONMENT.map, source.environmentFile);
+  } catch (environmentError) {
+    // The light rig still lights the model on its own
+    console.warn('Failed to load environment map, continuing without it:', environmentError);
+  }
+  return { model, environmentMap };
+};
+
+// Frees what loadSourceAssets loaded, once every sheet from it is drawn
+const disposeSceneAssets = ({ model, environmentMap }: SceneAssets) => {
+  disposeObject(model);
+  environmentMap?.dispose();
+};
+
+// Fills in the fields every generated sheet shares
+const createStripData = (
+  source: GenerationSource,
+  options: UseSpriteStripGeneratorOptions,
+  strip: {
+    title: string;
+    description: string;
+    spriteStripUrl: string;
+    companionUrls?: SpriteStripData['companionUrls'];
+    companions?: SpriteStripData['metadata']['companions'];
+    pivot: FramePivot;
+    trim?: SheetTrim;
+    modelUrl: string;
+    tags: string[];
+    frameAngles: number[];
+    rotation?: RotationSettings; // turntable sheets only
+    camera: CameraSettings;
+    layout: SheetGeometry;
+    dimensions: Dimensions;
+    animation?: SpriteStripData['metadata']['animation'];
+    directions?: SpriteStripData['metadata']['directions'];
+  }
+): SpriteStripData => {
+  const { modelFile, variant } = source;
+  const ratio = options.ratio ?? '16:9';
+  const { dimensions } = strip;
+  const frameCount = strip.frameAngles.length;
+
+  return {
+    id: `sprite_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+    title: variant ? `${strip.title} - ${getTextureTitle(variant)}` : strip.title,
+    description: variant ? `${strip.description}, textured with ${variant}` : strip.description,
+    spriteStripUrl: strip.spriteStripUrl,
+    ...(strip.companionUrls && { companionUrls: strip.companionUrls }),
+    modelUrl: strip.modelUrl,
+    frameCount,
+    ratio,
+    createdAt: new Date().toISOString(),
+    tags: variant ? [...strip.tags, `variant:${variant}`] : strip.tags,
+    metadata: {
+      originalFileName: modelFile.name,
+      fileSize: modelFile.size,
+      fileType: modelFile.type,
+      width: dimensions.width,
+      height: dimensions.height,
+      uniqueId: Math.random().toString(36).substring(2, 11),
+      frameCount,
+      ...(strip.rotation && { rotation: strip.rotation }),
+      frameAngles: strip.frameAngles,
+      layout: strip.layout,
+      backgroundColor: options.backgroundColor ?? '#ffffff',
+      backgroundMode: options.backgroundMode ?? 'color',
+      camera: {
+        ...strip.camera,
+        effectiveDistance: getCameraDistance(strip.camera, dimensions.width / dimensions.height),
+      },
+      ...(strip.animation && { animation: strip.animation }),
+      ...(strip.directions && { directions: strip.directions }),
+      ...(variant && { variant }),
+      ...(options.pixelArt?.enabled && { pixelScale: options.pixelArt.scale ?? DEFAULT_PIXEL_ART.scale }),
+      pivot: strip.pivot,
+      ...(strip.trim && { trim: strip.trim }),
+      ...(strip.companions && { companions: strip.companions }),
+    },
+  };
+};
+
+const getModelTitle = (modelFile: File) => modelFile.name.replace(/\.[^/.]+$/, "");
+const getTextureTitle = (textureName: string) => textureName.replace(/\.[^/.]+$/, "");
+
+/**
+ * Renders one model into a sprite sheet without touching React state, so it
+ * can back both the single generator and the batch queue. Progress is 0-100.
+ */
+export const renderSpriteStrip = async (
+  source: GenerationSource,
+  options: UseSpriteStripGeneratorOptions,
+  onProgress?: (progress: number) => void
+): Promise<SpriteStripData> => {
+  const { modelFile } = source;
+  const modelUrl = URL.createObjectURL(modelFile);
+  let assets: SceneAssets | null = null;
+
+  try {
+    const frameCount = resolveFrameCount(options.frameCount);
+    const rotation = resolveRotation(options.rotation);
+    const camera = resolveCamera(options.camera);
+    const frameAngles = getFrameAngles(frameCount, rotation);
+
+    onProgress?.(10);
+    assets = await loadSourceAssets(source, options);
+
+    const createPose: PoseFactory = ({ pivot }) => (index) => setPivotAngle(pivot, rotation.axis, frameAngles[index]);
+    const fit = resolveFrameFit(assets, frameCount, createPose, camera, options);
+
+    onProgress?.(20);
+    const rendered = await generateFrames(
+      assets,
+      frameCount,
+      createPose,
+      camera,
+      fit,
+      options,
+      (value) => {
+        onProgress?.(20 + value * 70); // 20-90% for frame generation
+      }
+    );
+
+    onProgress?.(90);
+    const trimmed = await trimRenderedFrames(rendered, fit.dimensions, options);
+    const layout = resolveSheetGeometry(frameCount, trimmed.cellSize, { ...DEFAULT_SHEET_LAYOUT, ...options.layout });
+    const sheetImages = await createSheetImages(trimmed.rendered, layout);
+
+    const spriteStripData = createStripData(source, options, {
+      title: getModelTitle(modelFile),
+      description: `Generated sprite strip from ${modelFile.name}`,
+      ...sheetImages,
+      pivot: trimmed.pivot,
+      trim: trimmed.trim,
+      modelUrl,
+      tags: ['generated', '3d-model'],
+      frameAngles,
+      rotation,
+      camera,
+      layout,
+      dimensions: fit.dimensions,
+    });
+
+    onProgress?.(100);
+    options.onGenerate?.(spriteStripData, source);
+    return spriteStripData;
+  } finally {
+    URL.revokeObjectURL(modelUrl);
+    if (assets) disposeSceneAssets(assets);
+  }
+};
+
+/**
+ * Renders each selected animation clip of a model into its own sheet. The
+ * model is not turned and the camera stays where the camera settings put
+ * it; only clip time moves from frame to frame.
+ */
+export const renderAnimationStrips = async (
+  source: GenerationSource,
+  options: UseSpriteStripGeneratorOptions,
+  onProgress?: (progress: number) => void
+): Promise<SpriteStripData[]> => {
+  const { modelFile } = source;
+  const modelUrl = URL.createObjectURL(modelFile);
+  let assets: SceneAssets | null = null;
+
+  try {
+    const animation = { ...DEFAULT_ANIMATION, ...options.animation };
+    if (animation.clips.length === 0) {
+      throw new Error('Choose at least one animation clip to render');
+    }
+
+    const camera = resolveCamera(options.camera);
+
+    onProgress?.(10);
+    assets = await loadSourceAssets(source, options);
+    const { model } = assets;
+
+    const clips = animation.clips
+      .map((name) => ({ name, clip: findAnimationClip(model, name) }))
+      .filter((entry): entry is { name: string; clip: THREE.AnimationClip } => !!entry.clip);
+    if (clips.length === 0) {
+      throw new Error(`${modelFile.name} has none of the selected animation clips: ${animation.clips.join(', ')}`);
+    }
+    if (clips.length < animation.clips.length) {
+      console.warn('Animation clips not found, skipping them:', animation.clips.filter((name) => !clips.some((entry) => entry.name === name)));
+    }
+
+    const strips: SpriteStripData[] = [];
+    for (const [clipIndex, { name, clip }] of clips.entries()) {
+      const frameTimes = getClipFrameTimes(clip.duration, animation);
+      const createPose: PoseFactory = ({ model: posed }) => {
+        const pose = createClipPoser(posed, clip);
+        return (index) => pose(frameTimes[index]);
+      };
+      // 'auto' fits each clip on its own, so a crouch does not inherit a jump's headroom
+      const fit = resolveFrameFit(assets, frameTimes.length, createPose, camera, options);
+
+      const rendered = await generateFrames(
+        assets,
+        frameTimes.length,
+        createPose,
+        camera,
+        fit,
+        options,
+        (value) => {
+          onProgress?.(20 + ((clipIndex + value) / clips.length) * 75); // 20-95% across all clips
+        }
+      );
+      const trimmed = await trimRenderedFrames(rendered, fit.dimensions, options);
+      const layout = resolveSheetGeometry(frameTimes.length, trimmed.cellSize, { ...DEFAULT_SHEET_LAYOUT, ...options.layout });
+      const sheetImages = await createSheetImages(trimmed.rendered, layout);
+
+      const spriteStripData = createStripData(source, options, {
+        title: `${getModelTitle(modelFile)} - ${name}`,
+        description: `Animation clip "${name}" from ${modelFile.name}`,
+        ...sheetImages,
+        pivot: trimmed.pivot,
+        trim: trimmed.trim,
+        modelUrl,
+        tags: ['generated', '3d-model', 'animation', `clip:${name}`],
+        frameAngles: frameTimes.map(() => 0),
+        camera,
+        layout,
+        dimensions: fit.dimensions,
+        animation: {
+          clip: name,
+          duration: clip.duration,
+          fps: clip.duration > 0 ? frameTimes.length / clip.duration : 0,
+          frameTimes,
+        },
+      });
+      options.onGenerate?.(spriteStripData, source);
+      strips.push(spriteStripData);
+    }
+
+    onProgress?.(100);
+    return strips;
+  } finally {
+    URL.revokeObjectURL(modelUrl);
+    if (assets) disposeSceneAssets(assets);
+  }
+};
+
+/**
+ * Renders the model facing 4, 8 or 16 directions into a grid with one row
+ * per direction, north first and then clockwise. With a clip every row plays
+ * it through; without one each row holds a single frame of the rest pose.
+ */
+export const renderDirectionalSheet = async (
+  source: GenerationSource,
+  options: UseSpriteStripGeneratorOptions,
+  onProgress?: (progress: number) => void
+): Promise<SpriteStripData> => {
+  const { modelFile } = source;
+  const modelUrl = URL.createObjectURL(modelFile);
+  let assets: SceneAssets | null = null;
+
+  try {
+    const directional = { ...DEFAULT_DIRECTIONAL, ...options.directional };
+    const animation = { ...DEFAULT_ANIMATION, ...options.animation };
+    const camera = resolveCamera(options.camera);
+    const directions = getSheetDirections(directional.directions);
+
+    onProgress?.(10);
+    assets = await loadSourceAssets(source, options);
+
+    const clip = directional.clip ? findAnimationClip(assets.model, directional.clip) : undefined;
+    if (directional.clip && !clip) {
+      throw new Error(`${modelFile.name} has no animation clip named "${directional.clip}"`);
+    }
+
+    const frameTimes = clip ? getClipFrameTimes(clip.duration, animation) : [0];
+    const frameCount = directions.length * frameTimes.length;
+    const frameAngles = Array.from({ length: frameCount }, (_, index) =>
+      getFacingAngle(directions[Math.floor(index / frameTimes.length)].angle, camera.azimuth)
+    );
+    const createPose: PoseFactory = ({ pivot, model: posed }) => {
+      const pose = clip ? createClipPoser(posed, clip) : undefined;
+      return (index) => {
+        setPivotAngle(pivot, 'y', frameAngles[index]);
+        pose?.(frameTimes[index % frameTimes.length]);
+      };
+    };
+    const fit = resolveFrameFit(assets, frameCount, createPose, camera, options);
+
+    onProgress?.(20);
+    const rendered = await generateFrames(
+      assets,
+      frameCount,
+      createPose,
+      camera,
+      fit,
+      options,
+      (value) => {
+        onProgress?.(20 + value * 70); // 20-90% for frame generation
+      }
+    );
+
+    onProgress?.(90);
+    const trimmed = await trimRenderedFrames(rendered, fit.dimensions, options);
+    // Rows are the directions whatever layout is chosen, so importers can rely on them
+    const layout = resolveSheetGeometry(frameCount, trimmed.cellSize, {
+      mode: 'grid',
+      columns: frameTimes.length,
+      rows: directions.length,
+      padding: options.layout?.padding ?? DEFAULT_SHEET_LAYOUT.padding,
+    });
+    const sheetImages = await createSheetImages(trimmed.rendered, layout);
+
+    const title = clip
+      ? `${getModelTitle(modelFile)} - ${directional.clip} x${directions.length}`
+      : `${getModelTitle(modelFile)} x${directions.length}`;
+    const spriteStripData = createStripData(source, options, {
+      title,
+      description: `${directions.length}-direction sheet from ${modelFile.name}${clip ? ` playing "${directional.clip}"` : ''}`,
+      ...sheetImages,
+      pivot: trimmed.pivot,
+      trim: trimmed.trim,
+      modelUrl,
+      tags: [
+        'generated',
+        '3d-model',
+        'directional',
+        `directions:${directions.length}`,
+        ...(clip ? [`clip:${directional.clip}`] : []),
+      ],
+      frameAngles,
+      camera,
+      layout,
+      dimensions: fit.dimensions,
+      directions,
+      animation: clip && directional.clip
+        ? {
+            clip: directional.clip,
+            duration: clip.duration,
+            fps: clip.duration > 0 ? frameTimes.length / clip.duration : 0,
+            frameTimes: frameAngles.map((_, index) => frameTimes[index % frameTimes.length]),
+          }
+        : undefined,
+    });
+
+    onProgress?.(100);
+    options.onGenerate?.(spriteStripData, source);
+    return spriteStripData;
+  } finally {
+    URL.revokeObjectURL(modelUrl);
+    if (assets) disposeSceneAssets(assets);
+  }
+};
+
+/**
+ * Renders every sheet the source mode asks for: one per clip in animation
+ * mode, otherwise a single sheet. Backs both the single generator and the
+ * batch queue.
+ */
+export const renderSheets = async (
+  source: GenerationSource,
+  options: UseSpriteStripGeneratorOptions,
+  onProgress?: (progress: number) => void
+): Promise<SpriteStripData[]> => {
+  if (options.sourceMode === 'animation') return renderAnimationStrips(source, options, onProgress);
+  if (options.sourceMode === 'directional') return [await renderDirectionalSheet(source, options, onProgress)];
+  return [await renderSpriteStrip(source, options, onProgress)];
+};
+
+export const useSpriteStripGenerator = (options: UseSpriteStripGeneratorOptions = {}) => {
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [generatedData, setGeneratedData] = useState<SpriteStripData | null>(null);
+  // Every sheet of the last run; animation mode makes one per clip
+  const [generatedStrips, setGeneratedStrips] = useState<SpriteStripData[]>([]);
+  // The same sheets grouped by texture when the last run rendered every variant
+  const [variantRuns, setVariantRuns] = useState<VariantRun[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Texture management state
+  const [textures, setTextures] = useState<File[]>([]);
+  // Which uploaded texture drives each material map; the base colour is the selected texture
+  const [textureSet, setTextureSet] = useState<TextureSet>({});
+  const texturePreviewsRef = useRef<Map<string, string>>(new Map());
+
+  // `overrides` lets callers re-run with stored settings without waiting for a re-render
+  const generateSpriteStrip = useCallback(async (
+    source: GenerationSource,
+    overrides?: UseSpriteStripGeneratorOptions
+  ) => {
+    if (!source.modelFile) return;
+
+    setIsGenerating(true);
+    setProgress(0);
+    setError(null);
+
+    try {
+      const resolvedSource = { ...source, textures: source.textures ?? textureSet };
+      const strips = await renderSheets(
+        resolvedSource,
+        { ...options, ...overrides, paletteLock: createPaletteLock() },
+        setProgress
+      );
+
+      setGeneratedStrips(strips);
+      setVariantRuns([]);
+      setGeneratedData(strips[0]);
+      setProgress(100);
+
+      return strips[0];
+    } catch (err) {
+      console.error('Sprite generation failed:', err);
+      const errorMessage = err instanceof Error
+        ? err.message
+        : 'Failed to generate sprite strip. Supported formats: GLTF, FBX, OBJ';
+      setError(errorMessage);
+      setGeneratedData(null);
+      setGeneratedStrips([]);
+      setVariantRuns([]);
+      throw err;
+    } finally {
+      setIsGenerating(false);
+    }
+  }, [options, textureSet]);
+
+  // Renders the source once per texture in `variants`, each as the base colour
+  // over the same maps, camera and lights, so the skins can be compared
+  const generateVariants = useCallback(async (
+    source: GenerationSource,
+    variants: File[],
+    overrides?: UseSpriteStripGeneratorOptions
+  ) => {
+    if (!source.modelFile || variants.length === 0) return;
+
+    setIsGenerating(true);
+    setProgress(0);
+    setError(null);
+
+    try {
+      // One lock for every variant, so a locked palette is shared by all the skins
+      const resolvedOptions = { ...options, ...overrides, paletteLock: createPaletteLock() };
+      const baseTextures = source.textures ?? textureSet;
+      const runs: VariantRun[] = [];
+
+      for (const [index, variant] of variants.entries()) {
+        const strips = await renderSheets(
+          { ...source, textures: { ...baseTextures, baseColor: variant }, variant: variant.name },
+          resolvedOptions,
+          (value) => setProgress(((index + value / 100) / variants.length) * 100)
+        );
+        runs.push({ texture: variant.name, strips });
+      }
+
+      const strips = runs.flatMap((run) => run.strips);
+      setGeneratedStrips(strips);
+      setVariantRuns(runs);
+      setGeneratedData(strips[0]);
+      setProgress(100);
+
+      return runs;
+    } catch (err) {
+      console.error('Variant generation failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to render the texture variants');
+      setGeneratedData(null);
+      setGeneratedStrips([]);
+      setVariantRuns([]);
+      throw err;
+    } finally {
+      setIsGenerating(false);
+    }
+  }, [options, textureSet]);
+
+  // Texture management functions
+  const addTextures = useCallback((newTextures: File[]) => {
+    const maxTextures = options.maxTextures ?? 10;
+    const acceptedFormats = options.acceptedFormats ?? ['.png', '.jpg', '.jpeg', '.webp'];
+
+    // Worked out before any state is set: updaters may run twice, and these create object URLs
+    const remainingSlots = Math.max(0, maxTextures - textures.length);
+    const validTextures = newTextures.slice(0, remainingSlots).filter((file) => {
+      const fileExtension = '.' + file.name.split('.').pop()?.toLowerCase();
+      return acceptedFormats.includes(fileExtension)
+        && !textures.some((existing) => existing.name === file.name);
+    });
+    if (validTextures.length === 0) return;
+
+    validTextures.forEach((texture) => {
+      if (!texturePreviewsRef.current.has(texture.name)) {
+        texturePreviewsRef.current.set(texture.name, URL.createObjectURL(texture));
+      }
+    });
+    setTextures([...textures, ...validTextures]);
+
+    // Files named like "_N" or "_ORM" fill their slot unless something is already in it
+    const detected = validTextures
+      .map((texture) => ({ texture, slot: detectTextureSlot(texture.name) }))
+      .filter((entry): entry is { texture: File; slot: TextureSlot } => entry.slot !== undefined);
+    if (detected.length > 0) {
+      setTextureSet((current) => detected.reduce<TextureSet>(
+        (next, { texture, slot }) => (next[slot] ? next : { ...next, [slot]: texture }),
+        current
+      ));
+    }
+  }, [textures, options.maxTextures, options.acceptedFormats]);
+
+  const removeTexture = useCallback((textureName: string) => {
+    setTextures((prev) => prev.filter((texture) => texture.name !== textureName));
+
+    const preview = texturePreviewsRef.current.get(textureName);
+    if (preview) {
+      URL.revokeObjectURL(preview);
+      texturePreviewsRef.current.delete(textureName);
+    }
+
+    setTextureSet((prev) => Object.fromEntries(
+      Object.entries(prev).filter(([, texture]) => texture.name !== textureName)
+    ));
+  }, []);
+
+  const clearAllTextures = useCallback(() => {
+    texturePreviewsRef.current.forEach((url) => URL.revokeObjectURL(url));
+    texturePreviewsRef.current.clear();
+    setTextures([]);
+    setTextureSet({});
+  }, []);
+
+  // Puts a texture in a slot, or empties the slot with null
+  const assignTextureSlot = useCallback((slot: TextureSlot, texture: File | null) => {
+    setTextureSet((prev) => {
+      const next = { ...prev };
+      if (texture) next[slot] = texture;
+      else delete next[slot];
+      return next;
+    });
+  }, []);
+
+  const selectTexture = useCallback((texture: File | null) => {
+    assignTextureSlot('baseColor', texture);
+  }, [assignTextureSlot]);
+
+  const getTexturePreview = useCallback((textureName: string) => {
+    return texturePreviewsRef.current.get(textureName) ?? null;
+  }, []);
+
+  // Revoke texture preview URLs on unmount
+  useEffect(() => {
+    const previews = texturePreviewsRef.current;
+    return () => {
+      previews.forEach((url) => URL.revokeObjectURL(url));
+      previews.clear();
+    };
+  }, []);
+
+  // Shows a previously generated sheet (e.g. from history) in place of the latest result.
+  // Switching between the sheets of the last run keeps the run together.
+  const showSpriteStrip = useCallback((data: SpriteStripData | null) => {
+    setError(null);
+    setGeneratedData(data);
+    setGeneratedStrips((prev) => (data && prev.includes(data) ? prev : data ? [data] : []));
+    setVariantRuns((prev) => (data && prev.some((run) => run.strips.includes(data)) ? prev : []));
+  }, []);
+
+  return {
+    generateSpriteStrip,
+    generateVariants,
+    showSpriteStrip,
+    isGenerating,
+    progress,
+    generatedData,
+    generatedStrips,
+    variantRuns,
+    error,
+    textures,
+    selectedTexture: textureSet.baseColor ?? null,
+    textureSet,
+    addTextures,
+    removeTexture,
+    clearAllTextures,
+    selectTexture,
+    assignTextureSlot,
+    getTexturePreview,
+  };
+};
+
+// glTF keeps its clips next to the scene; FBXLoader already puts them on the object
+const gltfToObject = (gltf: GLTF): THREE.Object3D => {
+  gltf.scene.animations = gltf.animations;
+  return gltf.scene;
+};
+
+// Helper function to load a 3D model, trying each supported loader in turn
+const loadWithFallback = (url: string, manager: THREE.LoadingManager): Promise<THREE.Object3D> => {
+  return new Promise((resolve, reject) => {
+    new GLTFLoader(manager).load(url, (gltf) => resolve(gltfToObject(gltf)), undefined, (gltfError) => {
+      new FBXLoader(manager).load(url, (fbx) => resolve(fbx), undefined, (fbxError) => {
+        new OBJLoader(manager).load(url, (object) => resolve(object), undefined, (objError) => {
+          console.error('All model loaders failed:', { gltfError, fbxError, objError });
+          reject(new Error('Failed to load 3D model. Supported formats: GLTF, FBX, OBJ'));
+        });
+      });
+    });
+  });
+};
+
+type ResourceManager = ReturnType<typeof createResourceManager>;
+
+// OBJ files name their materials in "mtllib", which OBJLoader does not follow on its own
+const loadObjWithMaterials = async (
+  modelFile: File,
+  resourceFiles: File[],
+  resources: ResourceManager
+): Promise<THREE.Object3D> => {
+  const text = await modelFile.text();
+  const loader = new OBJLoader(resources.manager);
+  const [library] = listObjMaterialLibraries(text);
+  const mtlFile = library ? resolveResource(library, resourceFiles) : undefined;
+
+  if (mtlFile) {
+    const materials = await new MTLLoader(resources.manager).loadAsync(resources.urlFor(mtlFile));
+    materials.preload();
+    loader.setMaterials(materials);
+  } else if (library) {
+    resources.missing.add(library);
+  }
+
+  return loader.parse(text);
+};
+
+/**
+ * Loads a model together with the companion files it refers to by relative
+ * path, such as a glTF's .bin buffers and textures or an OBJ's .mtl.
+ */
+export const loadModel = async (modelFile: File, resourceFiles: File[] = []): Promise<THREE.Object3D> => {
+  const resources = createResourceManager(resourceFiles);
+
+  try {
+    // Known extensions go straight to their loader, so a glTF with a missing
+    // .bin fails loudly instead of falling through to the OBJ parser
+    const extension = getExtension(modelFile.name);
+    const model = extension === '.obj'
+      ? await loadObjWithMaterials(modelFile, resourceFiles, resources)
+      : extension === '.gltf' || extension === '.glb'
+        ? gltfToObject(await new GLTFLoader(resources.manager).loadAsync(resources.urlFor(modelFile)))
+        : await loadWithFallback(resources.urlFor(modelFile), resources.manager);
+
+    // Textures may still be arriving after the model itself has resolved
+    await resources.idle();
+    if (resources.missing.size > 0) {
+      console.warn('Model resources not found, rendering without them:', Array.from(resources.missing));
+    }
+    return model;
+  } catch (err) {
+    if (resources.missing.size > 0) {
+      throw new Error(`Failed to load 3D model. Missing files: ${Array.from(resources.missing).join(', ')}`);
+    }
+    throw err;
+  } finally {
+    resources.dispose();
+  }
+};
+
+const loadTextureFile = (textureFile: File, colorSpace: THREE.ColorSpace): Promise<THREE.Texture> => {
+  return new Promise((resolve, reject) => {
+    const textureUrl = URL.createObjectURL(textureFile);
+
+    new THREE.TextureLoader().load(
+      textureUrl,
+      (texture) => {
+        texture.colorSpace = colorSpace;
+        URL.revokeObjectURL(textureUrl);
+        resolve(texture);
+      },
+      undefined,
+      () => {
+        URL.revokeObjectURL(textureUrl);
+        reject(new Error(`Failed to load texture file ${textureFile.name}`));
+      }
+    );
+  });
+};
+
+/**
+ * Builds one physically based material from the texture set. Colour maps
+ * are read as sRGB and data maps as linear; a separate roughness, metalness
+ * or AO map wins over that channel of ORM.
+ */
+const createTextureSetMaterial = async (textures: TextureSet): Promise<THREE.MeshStandardMaterial> => {
+  const load = (file: File | undefined, colorSpace: THREE.ColorSpace) =>
+    file ? loadTextureFile(file, colorSpace) : Promise.resolve(null);
+
+  const [map, normalMap, orm, roughnessMap, metalnessMap, aoMap, emissiveMap] = await Promise.all([
+    load(textures.baseColor, THREE.SRGBColorSpace),
+    load(textures.normal, THREE.NoColorSpace),
+    load(textures.orm, THREE.NoColorSpace),
+    load(textures.roughness, THREE.NoColorSpace),
+    load(textures.metalness, THREE.NoColorSpace),
+    load(textures.ao, THREE.NoColorSpace),
+    load(textures.emissive, THREE.SRGBColorSpace),
+  ]);
+
+  // three.js reads AO from red, roughness from green and metalness from blue, as ORM packs them
+  return new THREE.MeshStandardMaterial({
+    map,
+    normalMap,
+    roughnessMap: roughnessMap ?? orm,
+    metalnessMap: metalnessMap ?? orm,
+    aoMap: aoMap ?? orm,
+    emissiveMap,
+    emissive: emissiveMap ? 0xffffff : 0x000000,
+    roughness: 1,
+    // The map scales metalness, so without one the surface stays dielectric
+    metalness: (metalnessMap ?? orm) ? 1 : 0,
+  });
+};
+
+type ColorMappedMaterial =
+  | THREE.MeshStandardMaterial
+  | THREE.MeshPhongMaterial
+  | THREE.MeshLambertMaterial
+  | THREE.MeshBasicMaterial;
+
+const isColorMapped = (material: THREE.Material): material is ColorMappedMaterial =>
+  material instanceof THREE.MeshStandardMaterial ||
+  material instanceof THREE.MeshPhongMaterial ||
+  material instanceof THREE.MeshLambertMaterial ||
+  material instanceof THREE.MeshBasicMaterial;
+
+// Keeps everything about the material but its colour map
+const withColorMap = (material: THREE.Material, texture: THREE.Texture): THREE.Material => {
+  if (!isColorMapped(material)) {
+    return new THREE.MeshStandardMaterial({ name: material.name, map: texture, roughness: 1, metalness: 0 });
+  }
+  const copy = material.clone();
+  // glTF maps are not flipped; follow whatever the replaced map did
+  copy.map = material.map ? Object.assign(texture.clone(), { flipY: material.map.flipY }) : texture;
+  copy.color.set(0xffffff);
+  return copy;
+};
+
+/**
+ * Names every material of the model in the order meshes use them. Unnamed
+ * ones get a stand-in that stays stable for the same file, and materials
+ * that share a name share an entry.
+ */
+const nameMaterials = (model: THREE.Object3D) => {
+  const names = new Map<THREE.Material, string>();
+  model.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      (Array.isArray(child.material) ? child.material : [child.material]).forEach((material: THREE.Material) => {
+        if (!names.has(material)) names.set(material, material.name || `Material ${names.size + 1}`);
+      });
+    }
+  });
+  return names;
+};
+
+export interface ModelMaterialInfo {
+  name: string;
+  meshCount: number;
+  color: string | null; // #rrggbb of the model's own material
+  thumbnail: string | null; // data URL of the model's own colour map
+}
+
+const THUMBNAIL_SIZE = 48;
+
+const getMaterialThumbnail = (material: THREE.Material): string | null => {
+  const image: unknown = isColorMapped(material) ? material.map?.image : null;
+  const isDrawable = image instanceof HTMLImageElement
+    || image instanceof HTMLCanvasElement
+    || (typeof ImageBitmap !== 'undefined' && image instanceof ImageBitmap);
+  if (!isDrawable) return null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_SIZE;
+  canvas.height = THUMBNAIL_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(image, 0, 0, THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+  return canvas.toDataURL('image/png');
+};
+
+// Lists the materials of a model as it was loaded, before any textures are applied
+export const listModelMaterials = (model: THREE.Object3D): ModelMaterialInfo[] => {
+  const names = nameMaterials(model);
+  const materials = new Map<string, ModelMaterialInfo & { meshes: Set<THREE.Object3D> }>();
+  model.traverse((child) => {
+    if (!(child instanceof THREE.Mesh)) return;
+    (Array.isArray(child.material) ? child.material : [child.material]).forEach((material: THREE.Material) => {
+      const name = names.get(material) as string;
+      if (!materials.has(name)) {
+        materials.set(name, {
+          name,
+          meshCount: 0,
+          color: isColorMapped(material) ? `#${material.color.getHexString()}` : null,
+          thumbnail: getMaterialThumbnail(material),
+          meshes: new Set(),
+        });
+      }
+      materials.get(name)?.meshes.add(child);
+    });
+  });
+  return Array.from(materials.values()).map(({ meshes, ...info }) => ({ ...info, meshCount: meshes.size }));
+};
+
+/**
+ * Textures the model. Materials named in `materialTextures` get that file as
+ * their colour map, or keep their own for null; every other material is
+ * replaced by one built from the texture set, when it has any maps.
+ */
+export const applyTexturesToModel = async (
+  model: THREE.Object3D,
+  textures: TextureSet,
+  materialTextures: Record<string, File | null> = {}
+): Promise<void> => {
+  const names = nameMaterials(model);
+  const shared = hasTextures(textures) ? await createTextureSetMaterial(textures) : null;
+
+  const assignedFiles = Array.from(new Set(Object.values(materialTextures).filter((file): file is File => !!file)));
+  const loaded = await Promise.all(assignedFiles.map((file) => loadTextureFile(file, THREE.SRGBColorSpace)));
+  const assignedTextures = new Map(assignedFiles.map((file, index) => [file, loaded[index]]));
+
+  const replaced = new Map<THREE.Material, THREE.Material>();
+  const replace = (material: THREE.Material) => {
+    if (!replaced.has(material)) {
+      const assigned = materialTextures[names.get(material) as string];
+      const texture = assigned ? assignedTextures.get(assigned) : undefined;
+      replaced.set(
+        material,
+        texture ? withColorMap(material, texture) : assigned === null ? material : shared ?? material
+      );
+    }
+    return replaced.get(material) as THREE.Material;
+  };
+
+  model.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      child.material = Array.isArray(child.material) ? child.material.map(replace) : replace(child.material);
+    }
+  });
+};
+
+// Scales the model to MODEL_SIZE and centres it at the origin
+const normalizeModel = (model: THREE.Object3D) => {
+  const box = new THREE.Box3().setFromObject(model);
+  const size = box.getSize(new THREE.Vector3());
+
+  // The bounding diagonal stays constant whatever the rotation, so it frames every angle
+  const diagonal = size.length();
+  model.scale.setScalar(MODEL_SIZE / diagonal);
+  const scaledCenter = new THREE.Box3().setFromObject(model).getCenter(new THREE.Vector3());
+  model.position.sub(scaledCenter);
+};
+
+// Builds the camera on a sphere around the model, placed by azimuth and elevation
+// `zoom` scales the picture on top of the settings; 'auto' frames use it to fill the frame
+export const createCamera = (
+  settings: CameraSettings,
+  aspectRatio: number,
+  zoom = 1
+): THREE.PerspectiveCamera | THREE.OrthographicCamera => {
+  const camera = settings.projection === 'orthographic'
+    ? new THREE.OrthographicCamera()
+    : new THREE.PerspectiveCamera();
+  applyCameraSettings(camera, settings, aspectRatio, zoom);
+  return camera;
+};
+
+/**
+ * Points an existing camera as createCamera would, so the live preview can
+ * keep its camera while the settings change. The projection has to match.
+ */
+export const applyCameraSettings = (
+  camera: THREE.PerspectiveCamera | THREE.OrthographicCamera,
+  settings: CameraSettings,
+  aspectRatio: number,
+  zoom = 1
+) => {
+  const distance = getCameraDistance(settings, aspectRatio);
+  camera.near = 0.01;
+  camera.far = distance + MODEL_SIZE * 2;
+
+  if (camera instanceof THREE.OrthographicCamera) {
+    // Fit the padded bounding sphere into the narrower side of the frame
+    const halfHeight = (MODEL_RADIUS * (1 + settings.fitPadding)) / Math.min(1, aspectRatio);
+    const halfWidth = halfHeight * aspectRatio;
+    Object.assign(camera, { left: -halfWidth, right: halfWidth, top: halfHeight, bottom: -halfHeight });
+    camera.zoom = settings.orthoZoom * zoom;
+  } else {
+    camera.fov = settings.fov;
+    camera.aspect = aspectRatio;
+    camera.zoom = zoom;
+  }
+
+  // Straight up or down would leave lookAt without a usable up vector
+  const elevation = THREE.MathUtils.degToRad(Math.max(-89.9, Math.min(89.9, settings.elevation)));
+  const azimuth = THREE.MathUtils.degToRad(settings.azimuth);
+  camera.position.set(
+    distance * Math.cos(elevation) * Math.sin(azimuth),
+    distance * Math.sin(elevation),
+    distance * Math.cos(elevation) * Math.cos(azimuth)
+  );
+  camera.lookAt(0, 0, 0);
+  camera.updateProjectionMatrix();
+};
+
+export const applyClearColor = (renderer: THREE.WebGLRenderer, options: UseSpriteStripGeneratorOptions) => {
+  // The canvas is premultiplied, so a transparent clear has to be black for
+  // anti-aliased edges to blend towards nothing rather than the colour
+  if (options.backgroundMode === 'transparent') {
+    renderer.setClearColor(0x000000, 0);
+  } else {
+    renderer.setClearColor(
+      new THREE.Color(options.backgroundColor ?? '#ffffff'),
+      options.backgroundOpacity ?? 1
+    );
+  }
+};
+
+const SHADOW_MAP_SIZE = 2048;
+
+const configureShadow = (light: THREE.DirectionalLight | THREE.PointLight | THREE.SpotLight) => {
+  light.castShadow = true;
+  light.shadow.mapSize.set(SHADOW_MAP_SIZE, SHADOW_MAP_SIZE);
+  light.shadow.bias = -0.0005;
+  light.shadow.normalBias = 0.02;
+  light.shadow.camera.near = 0.01;
+  light.shadow.camera.far = light.position.length() + MODEL_SIZE * 2;
+  light.shadow.camera.updateProjectionMatrix();
+};
+
+// Builds one light of the rig; aimed lights point at `target`, the model centre
+const buildLight = (settings: LightSettings, target: THREE.Object3D): THREE.Light => {
+  if (settings.type === 'hemisphere') {
+    const hemisphere = new THREE.HemisphereLight(settings.color, settings.groundColor, settings.intensity);
+    hemisphere.position.set(settings.position.x, settings.position.y, settings.position.z);
+    return hemisphere;
+  }
+
+  let light: THREE.DirectionalLight | THREE.PointLight | THREE.SpotLight;
+  if (settings.type === 'point') {
+    // No falloff, so intensities mean the same as on directional lights
+    light = new THREE.PointLight(settings.color, settings.intensity, 0, 0);
+  } else if (settings.type === 'spot') {
+    light = new THREE.SpotLight(settings.color, settings.intensity, 0, THREE.MathUtils.degToRad(settings.angle), settings.penumbra, 0);
+    light.target = target;
+  } else {
+    light = new THREE.DirectionalLight(settings.color, settings.intensity);
+    light.target = target;
+    // The shadow camera only has to cover the normalised model
+    const extent = MODEL_RADIUS * 1.5;
+    Object.assign(light.shadow.camera, { left: -extent, right: extent, top: extent, bottom: -extent });
+  }
+
+  light.position.set(settings.position.x, settings.position.y, settings.position.z);
+  if (settings.castShadow) configureShadow(light);
+  return light;
+};
+
+export const hasShadows = (options: UseSpriteStripGeneratorOptions) =>
+  (options.lighting?.lights ?? DEFAULT_LIGHTING.lights).some((light) => light.castShadow && light.type !== 'hemisphere');
+
+export const applyShadowSettings = (renderer: THREE.WebGLRenderer, options: UseSpriteStripGeneratorOptions) => {
+  renderer.shadowMap.enabled = hasShadows(options);
+  renderer.shadowMap.type = THREE.PCFSoftShadowMap;
+};
+
+/**
+ * Keeps the light rig lined up with the camera. The rig sits at the model
+ * centre and turns with the view, so lights stay put on screen while the
+ * model spins underneath them.
+ */
+export const alignLightRig = (rig: THREE.Object3D, camera: THREE.Camera) => {
+  rig.quaternion.copy(camera.quaternion);
+  rig.updateMatrixWorld(true);
+};
+
+/**
+ * Turns the environment with the view, like the light rig: `rotation` is
+ * measured from the camera's azimuth, so reflections and the background stay
+ * put on screen while the model spins.
+ */
+export const alignEnvironment = (scene: THREE.Scene, camera: THREE.Camera, rotation: number) => {
+  const yaw = Math.atan2(camera.position.x, camera.position.z) + THREE.MathUtils.degToRad(rotation);
+  scene.environmentRotation.set(0, yaw, 0);
+  scene.backgroundRotation.set(0, yaw, 0);
+};
+
+// Image-based lighting only reaches physically based materials, so the
+// Lambert and Phong materials of OBJ, FBX and applied textures are swapped
+// for standard ones that look alike
+const toStandardMaterial = (material: THREE.Material): THREE.Material => {
+  if (!(material instanceof THREE.MeshLambertMaterial || material instanceof THREE.MeshPhongMaterial)) {
+    return material;
+  }
+  return new THREE.MeshStandardMaterial({
+    name: material.name,
+    color: material.color,
+    map: material.map,
+    emissive: material.emissive,
+    emissiveMap: material.emissiveMap,
+    emissiveIntensity: material.emissiveIntensity,
+    normalMap: material.normalMap,
+    alphaMap: material.alphaMap,
+    transparent: material.transparent,
+    opacity: material.opacity,
+    alphaTest: material.alphaTest,
+    side: material.side,
+    vertexColors: material.vertexColors,
+    // A rough match for Blinn-Phong highlights; Lambert has none
+    roughness: material instanceof THREE.MeshPhongMaterial ? Math.sqrt(2 / (material.shininess + 2)) : 1,
+    metalness: 0,
+  });
+};
+
+const convertToStandardMaterials = (model: THREE.Object3D) => {
+  // Meshes of one model often share materials; convert each only once
+  const converted = new Map<THREE.Material, THREE.Material>();
+  const convert = (material: THREE.Material) => {
+    if (!converted.has(material)) converted.set(material, toStandardMaterial(material));
+    return converted.get(material) as THREE.Material;
+  };
+  model.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      child.material = Array.isArray(child.material) ? child.material.map(convert) : convert(child.material);
+    }
+  });
+};
+
+/**
+ * Lights the model and wraps a normalised copy of it in a pivot group. The
+ * pivot spins while the model stays centred inside it. Shared by the frame
+ * renderer and the live preview so both show the same scene. The returned
+ * `model` is the copy, which animation clips are bound to, and `lightRig`
+ * holds the lights that follow `camera`. `environmentMap` adds image-based
+ * lighting on top of the rig.
+ */
+export const createRenderScene = (
+  model: THREE.Object3D,
+  options: UseSpriteStripGeneratorOptions,
+  camera: THREE.Camera,
+  environmentMap: THREE.Texture | null = null
+) => {
+  const scene = new THREE.Scene();
+
+  const ambientLight = new THREE.AmbientLight(0x404040);
+  scene.add(ambientLight);
+  const lightRig = new THREE.Group();
+  lightRig.add(new THREE.Object3D()); // the target of aimed lights
+  scene.add(lightRig);
+
+  // A plain clone would leave skinned meshes bound to the original skeleton
+  const modelClone = cloneSkinned(model);
+  // Normalising a wrapper keeps clips that animate the model's root from undoing it
+  const normalized = new THREE.Group();
+  normalized.add(modelClone);
+  const pivot = new THREE.Group();
+  pivot.add(normalized);
+  scene.add(pivot);
+  normalizeModel(normalized);
+  if (environmentMap) convertToStandardMaterials(modelClone);
+
+  const renderScene = { scene, pivot, model: modelClone, lightRig, ambientLight, environmentMap };
+  applySceneSettings(renderScene, options, camera);
+  return renderScene;
+};
+
+/**
+ * Lights a scene from createRenderScene by the options: the ambient light,
+ * the rig's lights, the environment and which meshes cast shadows. The live
+ * preview calls it again as the settings change, so the scene is kept; the
+ * lights it replaces free their shadow maps.
+ */
+export const applySceneSettings = (
+  { scene, model, lightRig, ambientLight, environmentMap }: RenderScene,
+  options: UseSpriteStripGeneratorOptions,
+  camera: THREE.Camera
+) => {
+  const ambientConfig = options.lighting?.ambientLight ?? { intensity: 0.6 };
+  ambientLight.intensity = ambientConfig.intensity ?? 1;
+
+  const [target] = lightRig.children;
+  lightRig.children.filter((child): child is THREE.Light => child instanceof THREE.Light).forEach((light) => {
+    lightRig.remove(light);
+    light.dispose();
+  });
+  (options.lighting?.lights ?? DEFAULT_LIGHTING.lights).forEach((settings) => {
+    lightRig.add(buildLight(settings, target));
+  });
+  alignLightRig(lightRig, camera);
+
+  const environment = { ...DEFAULT_ENVIRONMENT, ...options.environment };
+  scene.environment = environmentMap;
+  scene.environmentIntensity = environment.intensity;
+  // Transparent sheets stay transparent; the map still lights the model
+  const showBackground = environmentMap && environment.showBackground && options.backgroundMode !== 'transparent';
+  scene.background = showBackground ? environmentMap : null;
+  scene.backgroundIntensity = environment.intensity;
+  alignEnvironment(scene, camera, environment.rotation);
+
+  const castShadows = hasShadows(options);
+  model.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      child.castShadow = castShadows;
+      child.receiveShadow = castShadows;
+    }
+  });
+};
+
+interface GpuResources {
+  geometries: Set<THREE.BufferGeometry>;
+  materials: Set<THREE.Material>;
+  textures: Set<THREE.Texture>;
+  skeletons: Set<THREE.Skeleton>;
+}
+
+const collectGpuResources = (object: THREE.Object3D): GpuResources => {
+  const resources: GpuResources = { geometries: new Set(), materials: new Set(), textures: new Set(), skeletons: new Set() };
+  object.traverse((child) => {
+    if (child instanceof THREE.SkinnedMesh) resources.skeletons.add(child.skeleton);
+    if (!(child instanceof THREE.Mesh)) return;
+    resources.geometries.add(child.geometry);
+    (Array.isArray(child.material) ? child.material : [child.material]).forEach((material: THREE.Material) => {
+      resources.materials.add(material);
+      Object.values(material).forEach((value) => {
+        if (value instanceof THREE.Texture) resources.textures.add(value);
+      });
+    });
+  });
+  return resources;
+};
+
+/**
+ * Frees what `object` holds on the GPU: geometry, materials, textures,
+ * skeletons and the shadow maps of its lights. Copies of a model share its
+ * geometry and most of its materials, so anything `keep` still uses stays.
+ */
+export const disposeObject = (object: THREE.Object3D, keep?: THREE.Object3D) => {
+  const kept = keep ? collectGpuResources(keep) : null;
+  const resources = collectGpuResources(object);
+  const dispose = <T extends { dispose: () => void }>(entries: Set<T>, keptEntries?: Set<T>) =>
+    entries.forEach((entry) => {
+      if (!keptEntries?.has(entry)) entry.dispose();
+    });
+
+  dispose(resources.geometries, kept?.geometries);
+  dispose(resources.materials, kept?.materials);
+  dispose(resources.textures, kept?.textures);
+  dispose(resources.skeletons, kept?.skeletons);
+  object.traverse((child) => {
+    if (child instanceof THREE.Light) child.dispose();
+  });
+};
+
+export const setPivotAngle = (pivot: THREE.Object3D, axis: RotationSettings['axis'], angle: number) => {
+  pivot.rotation.set(0, 0, 0);
+  pivot.rotation[axis] = THREE.MathUtils.degToRad(angle);
+};
+
+export interface RenderScene {
+  scene: THREE.Scene;
+  pivot: THREE.Group;
+  model: THREE.Object3D;
+  lightRig: THREE.Group;
+  ambientLight: THREE.AmbientLight;
+  environmentMap: THREE.Texture | null;
+}
+
+// Returns what sets up each frame of a scene, by frame index
+type PoseFactory = (renderScene: RenderScene) => (index: number) => void;
+
+interface FrameFit {
+  dimensions: Dimensions;
+  zoom: number;
+}
+
+/**
+ * How far the posed model reaches from the frame centre over all frames, per
+ * axis, in normalised device coordinates (1 is the frame edge). Skinned
+ * meshes are re-measured in every pose.
+ */
+const measureFrameExtent = (
+  renderScene: RenderScene,
+  camera: THREE.Camera,
+  frameCount: number,
+  pose: (index: number) => void
+) => {
+  const extent = { x: 0, y: 0 };
+  const corner = new THREE.Vector3();
+
+  for (let i = 0; i < frameCount; i++) {
+    pose(i);
+    renderScene.scene.updateMatrixWorld(true);
+    renderScene.model.traverse((child) => {
+      if (!(child instanceof THREE.Mesh) || !child.visible) return;
+      let box: THREE.Box3 | null;
+      if (child instanceof THREE.SkinnedMesh) {
+        child.computeBoundingBox();
+        box = child.boundingBox;
+      } else {
+        if (!child.geometry.boundingBox) child.geometry.computeBoundingBox();
+        box = child.geometry.boundingBox;
+      }
+      if (!box || box.isEmpty()) return;
+
+      for (let c = 0; c < 8; c++) {
+        corner
+          .set(c & 1 ? box.max.x : box.min.x, c & 2 ? box.max.y : box.min.y, c & 4 ? box.max.z : box.min.z)
+          .applyMatrix4(child.matrixWorld)
+          .project(camera);
+        extent.x = Math.max(extent.x, Math.abs(corner.x));
+        extent.y = Math.max(extent.y, Math.abs(corner.y));
+      }
+    });
+  }
+  return extent;
+};
+
+/**
+ * Sizes an 'auto' frame to the model's projected bounds over every frame:
+ * the frame takes their aspect ratio at the largest size that fits `bounds`,
+ * and the zoom makes the bounds, grown by the fit padding, fill it. The
+ * camera stays centred on the model, so the bounds are mirrored around it.
+ */
+const fitAutoFrame = (
+  assets: SceneAssets,
+  frameCount: number,
+  createPose: PoseFactory,
+  cameraSettings: CameraSettings,
+  options: UseSpriteStripGeneratorOptions,
+  bounds: Dimensions
+): FrameFit => {
+  const measure = (aspectRatio: number) => {
+    const camera = createCamera(cameraSettings, aspectRatio);
+    const renderScene = createRenderScene(assets.model, options, camera);
+    try {
+      return measureFrameExtent(renderScene, camera, frameCount, createPose(renderScene));
+    } finally {
+      disposeObject(renderScene.scene, assets.model);
+    }
+  };
+
+  // A square frame shows both axes at the same scale
+  const square = measure(1);
+  const aspectRatio = square.x > 0 && square.y > 0
+    ? Math.min(MAX_AUTO_ASPECT, Math.max(1 / MAX_AUTO_ASPECT, square.x / square.y))
+    : 1;
+  // Auto-fit distance depends on the aspect ratio, so measure again in the final shape
+  const fitted = measure(aspectRatio);
+  const extent = Math.max(fitted.x, fitted.y);
+
+  const width = Math.max(1, Math.round(Math.min(bounds.width, bounds.height * aspectRatio)));
+  return {
+    dimensions: { width, height: Math.max(1, Math.round(width / aspectRatio)) },
+    zoom: extent > 0 ? 1 / (extent * (1 + cameraSettings.fitPadding)) : 1,
+  };
+};
+
+const resolveFrameFit = (
+  assets: SceneAssets,
+  frameCount: number,
+  createPose: PoseFactory,
+  cameraSettings: CameraSettings,
+  options: UseSpriteStripGeneratorOptions
+): FrameFit => {
+  const dimensions = getFrameDimensions(options);
+  const fit = options.ratio === 'auto'
+    ? fitAutoFrame(assets, frameCount, createPose, cameraSettings, options, dimensions)
+    : { dimensions, zoom: 1 };
+  if (!options.pixelArt?.enabled) return fit;
+
+  // Pixel art frames are whole art pixels wide and high
+  const scale = options.pixelArt.scale ?? DEFAULT_PIXEL_ART.scale;
+  const snap = (size: number) => Math.max(scale, Math.round(size / scale) * scale);
+  return { ...fit, dimensions: { width: snap(fit.dimensions.width), height: snap(fit.dimensions.height) } };
+};
+
+interface RenderedFrames {
+  color: string[];
+  companions: Partial<Record<CompanionMap, string[]>>;
+  companionInfo?: SpriteStripData['metadata']['companions'];
+}
+
+/**
+ * Camera distances the depth strip spans: the normalised model's bounding
+ * sphere, seen from where the camera sits. Poses that leave it clamp to
+ * white or black.
+ */
+const getDepthRange = (camera: CameraSettings, aspectRatio: number) => {
+  const distance = getCameraDistance(camera, aspectRatio);
+  return { near: Math.max(0, distance - MODEL_RADIUS), far: distance + MODEL_RADIUS };
+};
+
+// Helper function to render `frameCount` frames; `createPose` returns what sets up each one
+const generateFrames = async (
+  assets: SceneAssets,
+  frameCount: number,
+  createPose: PoseFactory,
+  cameraSettings: CameraSettings,
+  { dimensions, zoom }: FrameFit,
+  options: UseSpriteStripGeneratorOptions,
+  onProgress?: (progress: number) => void
+): Promise<RenderedFrames> => {
+  const pixelArt = options.pixelArt?.enabled ? { ...DEFAULT_PIXEL_ART, ...options.pixelArt } : null;
+  // Pixel art renders small and without anti-aliasing, then scales up by whole pixels
+  const scale = pixelArt ? pixelArt.scale : 1;
+  const renderWidth = Math.round(dimensions.width / scale);
+  const renderHeight = Math.round(dimensions.height / scale);
+  const aspectRatio = dimensions.width / dimensions.height;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = renderWidth;
+  canvas.height = renderHeight;
+
+  const renderer = new THREE.WebGLRenderer({ canvas, antialias: !pixelArt, alpha: true, preserveDrawingBuffer: true });
+  renderer.setSize(renderWidth, renderHeight, false);
+  // Pixel art needs the silhouette for its outline, so the background is filled in afterwards
+  applyClearColor(renderer, pixelArt ? { ...options, backgroundMode: 'transparent' } : options);
+  applyShadowSettings(renderer, options);
+
+  // Edge fixing and pixel art need pixel access, which the WebGL canvas does not give directly
+  const fringeFix = !pixelArt && options.backgroundMode === 'transparent' && options.fringeFix;
+  const readCanvas = fringeFix || pixelArt ? document.createElement('canvas') : null;
+  const readCtx = readCanvas?.getContext('2d', { willReadFrequently: true }) ?? null;
+  if (readCanvas) {
+    readCanvas.width = renderWidth;
+    readCanvas.height = renderHeight;
+  }
+
+  const camera = createCamera(cameraSettings, aspectRatio, zoom);
+  const renderScene = createRenderScene(assets.model, options, camera, assets.environmentMap);
+  const { scene } = renderScene;
+  const pose = createPose(renderScene);
+
+  const companionMaps = options.companionMaps ?? [];
+  const companionRenderer = companionMaps.length > 0
+    ? createCompanionRenderer(renderScene.model, companionMaps, {
+        width: renderWidth,
+        height: renderHeight,
+        depthRange: getDepthRange(cameraSettings, aspectRatio),
+      })
+    : null;
+
+  const frames: string[] = [];
+  const pixelFrames: ImageData[] = [];
+  const companions: Partial<Record<CompanionMap, string[]>> = {};
+  const pixelCompanions: Partial<Record<CompanionMap, ImageData[]>> = {};
+
+  // Draws a WebGL canvas where its pixels can be read
+  const readPixels = (source: HTMLCanvasElement, context: CanvasRenderingContext2D) => {
+    context.clearRect(0, 0, renderWidth, renderHeight);
+    context.drawImage(source, 0, 0);
+    return context.getImageData(0, 0, renderWidth, renderHeight);
+  };
+
+  try {
+    for (let i = 0; i < frameCount; i++) {
+      options.signal?.throwIfAborted();
+      pose(i);
+
+      renderer.render(scene, camera);
+      if (readCanvas && readCtx) {
+        const image = readPixels(canvas, readCtx);
+        if (pixelArt) {
+          pixelFrames.push(image);
+        } else {
+          readCtx.putImageData(fixEdgeFringe(image), 0, 0);
+          frames.push(readCanvas.toDataURL('image/png'));
+        }
+      } else {
+        frames.push(canvas.toDataURL('image/png'));
+      }
+
+      companionRenderer?.render(scene, camera, (map) => {
+        if (pixelArt && readCtx) {
+          (pixelCompanions[map] ??= []).push(readPixels(companionRenderer.canvas, readCtx));
+        } else {
+          (companions[map] ??= []).push(companionRenderer.canvas.toDataURL('image/png'));
+        }
+      });
+      onProgress?.((i + 1) / frameCount);
+
+      // Yield to the browser so progress updates can paint
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  } finally {
+    // dispose() leaves the WebGL context alive, and browsers only allow a handful at once
+    renderer.dispose();
+    renderer.forceContextLoss();
+    companionRenderer?.dispose();
+    disposeObject(scene, assets.model);
+  }
+
+  if (pixelArt && readCanvas && readCtx) {
+    // The palette is picked from every frame of the sheet at once, so the frames share it
+    processPixelArtFrames(
+      pixelFrames,
+      pixelArt,
+      options.paletteLock,
+      options.backgroundMode === 'transparent' ? undefined : options.backgroundColor ?? '#ffffff'
+    );
+
+    const upscaled = document.createElement('canvas');
+    upscaled.width = dimensions.width;
+    upscaled.height = dimensions.height;
+    const upscaledCtx = upscaled.getContext('2d');
+    if (!upscaledCtx) throw new Error('Canvas 2D context is not available');
+    upscaledCtx.imageSmoothingEnabled = false;
+
+    const upscale = (images: ImageData[]) => images.map((image) => {
+      readCtx.putImageData(image, 0, 0);
+      upscaledCtx.clearRect(0, 0, dimensions.width, dimensions.height);
+      upscaledCtx.drawImage(readCanvas, 0, 0, dimensions.width, dimensions.height);
+      return upscaled.toDataURL('image/png');
+    });
+
+    frames.push(...upscale(pixelFrames));
+    // Companion maps keep their exact values; only the colour strip is quantised
+    companionMaps.forEach((map) => {
+      companions[map] = upscale(pixelCompanions[map] ?? []);
+    });
+  }
+
+  return { color: frames, companions, companionInfo: companionRenderer?.info };
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load rendered frame'));
+    img.src = src;
+  });
+};
+
+// Helper function to pack the frames into a strip or grid sheet
+const createSpriteStrip = async (frames: string[], layout: SheetGeometry): Promise<string> => {
+  const sizeError = getCanvasSizeError(layout.sheetWidth, layout.sheetHeight);
+  if (sizeError) throw new Error(sizeError);
+
+  const stripCanvas = document.createElement('canvas');
+  stripCanvas.width = layout.sheetWidth;
+  stripCanvas.height = layout.sheetHeight;
+  const ctx = stripCanvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+
+  const images = await Promise.all(frames.map(loadImage));
+  images.forEach((img, index) => {
+    const rect = getFrameRect(layout, index);
+    ctx.drawImage(img, rect.x, rect.y, rect.width, rect.height);
+  });
+
+  return stripCanvas.toDataURL('image/png');
+};
+
+/**
+ * Measures the frames for the pivot and, when trimming, crops the colour
+ * frames and their companions to the same rects. `cellSize` is the frame
+ * size the sheet layout should use.
+ */
+const trimRenderedFrames = async (
+  rendered: RenderedFrames,
+  dimensions: Dimensions,
+  options: UseSpriteStripGeneratorOptions
+): Promise<{ rendered: RenderedFrames; cellSize: Dimensions; pivot: FramePivot; trim?: SheetTrim }> => {
+  const settings = { ...DEFAULT_TRIM, ...options.trim };
+  const background = options.backgroundMode === 'transparent' ? undefined : options.backgroundColor ?? '#ffffff';
+  const needsBounds = settings.enabled || settings.pivot === 'bottom-center';
+  const bounds = needsBounds ? await measureFrames(rendered.color, background) : [];
+  const pivot = resolvePivot(settings, bounds, dimensions);
+  if (!settings.enabled) return { rendered, cellSize: dimensions, pivot };
+
+  const rects = getTrimRects(bounds, settings.padding, dimensions);
+  const companions: RenderedFrames['companions'] = {};
+  for (const [map, frames] of Object.entries(rendered.companions) as [CompanionMap, string[]][]) {
+    companions[map] = await cropFrames(frames, rects);
+  }
+  return {
+    rendered: { ...rendered, color: await cropFrames(rendered.color, rects), companions },
+    cellSize: getTrimCellSize(rects),
+    pivot,
+    trim: { sourceWidth: dimensions.width, sourceHeight: dimensions.height, frames: rects },
+  };
+};
+
+// Packs the colour frames and every companion map into sheets of the same layout
+const createSheetImages = async (rendered: RenderedFrames, layout: SheetGeometry) => {
+  const spriteStripUrl = await createSpriteStrip(rendered.color, layout);
+  const entries = await Promise.all(
+    (Object.entries(rendered.companions) as [CompanionMap, string[]][]).map(
+      async ([map, frames]) => [map, await createSpriteStrip(frames, layout)] as const
+    )
+  );
+  return {
+    spriteStripUrl,
+    ...(entries.length > 0 && { companionUrls: Object.fromEntries(entries) as Partial<Record<CompanionMap, string>> }),
+    ...(rendered.companionInfo && { companions: rendered.companionInfo }),
+  };
+};
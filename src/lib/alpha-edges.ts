@@ -0,0 +1,56 @@
+/**
+ * Anti-aliased edge pixels of a transparent render still carry some of the
+ * clear colour, which shows up as a dark or light halo once the sprite is
+ * placed on a different background. This replaces the colour of every
+ * semi-transparent pixel with the average of the nearest fully opaque
+ * pixels around it, keeping its alpha. Works in place.
+ */
+export function fixEdgeFringe(image: ImageData, radius = 2): ImageData {
+  const { width, height, data } = image;
+  const source = new Uint8ClampedArray(data);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      const alpha = source[offset + 3];
+      if (alpha === 0 || alpha === 255) continue;
+
+      let bestDistance = Infinity;
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let count = 0;
+
+      for (let dy = -radius; dy <= radius; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -radius; dx <= radius; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= width || (dx === 0 && dy === 0)) continue;
+          const neighbour = (ny * width + nx) * 4;
+          if (source[neighbour + 3] !== 255) continue;
+
+          const distance = dx * dx + dy * dy;
+          if (distance < bestDistance) {
+            bestDistance = distance;
+            r = g = b = count = 0;
+          }
+          if (distance === bestDistance) {
+            r += source[neighbour];
+            g += source[neighbour + 1];
+            b += source[neighbour + 2];
+            count++;
+          }
+        }
+      }
+
+      if (count > 0) {
+        data[offset] = r / count;
+        data[offset + 1] = g / count;
+        data[offset + 2] = b / count;
+      }
+    }
+  }
+
+  return image;
+}
@@ -0,0 +1,280 @@
+import { GIFEncoder, applyPalette, quantize } from "gifenc";
+import {
+  asciiBytes,
+  concatBytes,
+  crc32,
+  readUint32BE,
+  readUint32LE,
+  toArrayBuffer,
+  uint16LE,
+  uint24LE,
+  uint32BE,
+  uint32LE,
+} from "@/lib/binary";
+
+export type AnimationFormat = 'gif' | 'apng' | 'webp';
+
+export const ANIMATION_FORMATS: Record<AnimationFormat, { label: string; extension: string; mimeType: string }> = {
+  gif: { label: 'GIF', extension: 'gif', mimeType: 'image/gif' },
+  apng: { label: 'APNG', extension: 'png', mimeType: 'image/apng' },
+  webp: { label: 'WebP', extension: 'webp', mimeType: 'image/webp' },
+};
+
+export interface AnimationExportOptions {
+  fps: number;
+  loopCount: number; // 0 loops forever, otherwise total number of plays
+  pingPong: boolean;
+  transparent?: boolean; // GIF only: keep alpha and key out `keyColor`
+  keyColor?: string; // hex colour treated as transparent in GIFs
+  quality?: number; // WebP only, 0-1
+  onProgress?: (progress: number) => void;
+}
+
+/**
+ * Frame indices in the order they are played. Ping-pong runs forward then
+ * back without repeating the turning-point frames.
+ */
+export function getPlaybackOrder(frameCount: number, pingPong: boolean): number[] {
+  const forward = Array.from({ length: frameCount }, (_, i) => i);
+  if (!pingPong || frameCount < 3) return forward;
+  return [...forward, ...forward.slice(1, -1).reverse()];
+}
+
+export function scaleFrames(frames: HTMLCanvasElement[], scale: number): HTMLCanvasElement[] {
+  if (scale === 1) return frames;
+  return frames.map((frame) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(frame.width * scale));
+    canvas.height = Math.max(1, Math.round(frame.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(frame, 0, 0, canvas.width, canvas.height);
+    }
+    return canvas;
+  });
+}
+
+const canvasToBytes = async (canvas: HTMLCanvasElement, type: string, quality?: number) => {
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality));
+  if (!blob || blob.type !== type) {
+    throw new Error(`This browser cannot encode ${type} images`);
+  }
+  return new Uint8Array(await blob.arrayBuffer());
+};
+
+const getFrameDelay = (fps: number) => Math.round(1000 / Math.max(1, fps));
+
+const parseHexColor = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+};
+
+// Pixels this close (per channel) to the key colour become transparent
+const KEY_COLOR_TOLERANCE = 8;
+
+export async function encodeGif(frames: HTMLCanvasElement[], options: AnimationExportOptions): Promise<Blob> {
+  const order = getPlaybackOrder(frames.length, options.pingPong);
+  const gif = GIFEncoder();
+  const delay = getFrameDelay(options.fps);
+  // gifenc counts repeats after the first play: -1 plays once, 0 loops forever
+  const repeat = options.loopCount === 0 ? 0 : options.loopCount === 1 ? -1 : options.loopCount - 1;
+  const key = options.transparent && options.keyColor ? parseHexColor(options.keyColor) : null;
+
+  for (let i = 0; i < order.length; i++) {
+    const frame = frames[order[i]];
+    const ctx = frame.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is not available');
+    const { data, width, height } = ctx.getImageData(0, 0, frame.width, frame.height);
+
+    if (options.transparent) {
+      if (key) {
+        for (let p = 0; p < data.length; p += 4) {
+          if (
+            Math.abs(data[p] - key[0]) <= KEY_COLOR_TOLERANCE &&
+            Math.abs(data[p + 1] - key[1]) <= KEY_COLOR_TOLERANCE &&
+            Math.abs(data[p + 2] - key[2]) <= KEY_COLOR_TOLERANCE
+          ) {
+            data[p + 3] = 0;
+          }
+        }
+      }
+
+      const palette = quantize(data, 256, { format: 'rgba4444', oneBitAlpha: true });
+      const index = applyPalette(data, palette, 'rgba4444');
+      const transparentIndex = palette.findIndex((color) => color[3] === 0);
+      gif.writeFrame(index, width, height, {
+        palette,
+        delay,
+        repeat,
+        transparent: transparentIndex !== -1,
+        transparentIndex: Math.max(0, transparentIndex),
+        dispose: 2, // clear each frame so earlier ones do not show through
+      });
+    } else {
+      const palette = quantize(data, 256);
+      const index = applyPalette(data, palette);
+      gif.writeFrame(index, width, height, { palette, delay, repeat });
+    }
+
+    options.onProgress?.((i + 1) / order.length);
+    // Yield so the progress readout can repaint
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
+  gif.finish();
+  return new Blob([toArrayBuffer(gif.bytesView())], { type: ANIMATION_FORMATS.gif.mimeType });
+}
+
+type PngChunk = { type: string; data: Uint8Array };
+
+const PNG_SIGNATURE = Uint8Array.of(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a);
+
+const readPngChunks = (bytes: Uint8Array): PngChunk[] => {
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset < bytes.length) {
+    const length = readUint32BE(bytes, offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+  }
+  return chunks;
+};
+
+const pngChunk = (type: string, data: Uint8Array) => {
+  const typeBytes = asciiBytes(type);
+  return concatBytes([uint32BE(data.length), typeBytes, data, uint32BE(crc32(typeBytes, data))]);
+};
+
+const uint16BE = (value: number) => Uint8Array.of((value >> 8) & 0xff, value & 0xff);
+
+/**
+ * Builds an APNG by re-wrapping the browser's own PNG output: the first
+ * frame's IDAT stays as the default image, later frames become fdAT chunks.
+ */
+export async function encodeApng(frames: HTMLCanvasElement[], options: AnimationExportOptions): Promise<Blob> {
+  const order = getPlaybackOrder(frames.length, options.pingPong);
+  const delay = getFrameDelay(options.fps);
+  const parts: Uint8Array[] = [PNG_SIGNATURE];
+  let sequence = 0;
+
+  for (let i = 0; i < order.length; i++) {
+    const frame = frames[order[i]];
+    const chunks = readPngChunks(await canvasToBytes(frame, 'image/png'));
+
+    if (i === 0) {
+      const header = chunks.find((chunk) => chunk.type === 'IHDR');
+      if (!header) throw new Error('Encoded PNG frame has no IHDR chunk');
+      parts.push(pngChunk('IHDR', header.data));
+      parts.push(pngChunk('acTL', concatBytes([uint32BE(order.length), uint32BE(options.loopCount)])));
+      chunks
+        .filter((chunk) => !['IHDR', 'IDAT', 'IEND'].includes(chunk.type))
+        .forEach((chunk) => parts.push(pngChunk(chunk.type, chunk.data)));
+    }
+
+    parts.push(pngChunk('fcTL', concatBytes([
+      uint32BE(sequence++),
+      uint32BE(frame.width),
+      uint32BE(frame.height),
+      uint32BE(0),
+      uint32BE(0),
+      uint16BE(delay),
+      uint16BE(1000),
+      Uint8Array.of(0, 0), // dispose: none, blend: source
+    ])));
+
+    chunks
+      .filter((chunk) => chunk.type === 'IDAT')
+      .forEach((chunk) => {
+        parts.push(i === 0
+          ? pngChunk('IDAT', chunk.data)
+          : pngChunk('fdAT', concatBytes([uint32BE(sequence++), chunk.data])));
+      });
+
+    options.onProgress?.((i + 1) / order.length);
+  }
+
+  parts.push(pngChunk('IEND', new Uint8Array(0)));
+  return new Blob([toArrayBuffer(concatBytes(parts))], { type: ANIMATION_FORMATS.apng.mimeType });
+}
+
+const riffChunk = (fourcc: string, data: Uint8Array) => concatBytes([
+  asciiBytes(fourcc),
+  uint32LE(data.length),
+  data,
+  data.length % 2 === 1 ? new Uint8Array(1) : new Uint8Array(0),
+]);
+
+// Returns the ALPH/VP8/VP8L chunks of a still WebP, header and padding included
+const readWebpImageChunks = (bytes: Uint8Array): Uint8Array[] => {
+  const chunks: Uint8Array[] = [];
+  let offset = 12; // 'RIFF' + size + 'WEBP'
+  while (offset + 8 <= bytes.length) {
+    const fourcc = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const size = readUint32LE(bytes, offset + 4);
+    const end = offset + 8 + size + (size % 2);
+    if (['ALPH', 'VP8 ', 'VP8L'].includes(fourcc)) {
+      chunks.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+  return chunks;
+};
+
+/**
+ * Builds an animated WebP from still frames encoded by the browser, wrapping
+ * each one in an ANMF chunk.
+ */
+export async function encodeWebp(frames: HTMLCanvasElement[], options: AnimationExportOptions): Promise<Blob> {
+  const order = getPlaybackOrder(frames.length, options.pingPong);
+  const delay = getFrameDelay(options.fps);
+  const width = frames[0]?.width ?? 1;
+  const height = frames[0]?.height ?? 1;
+  const anmfChunks: Uint8Array[] = [];
+
+  for (let i = 0; i < order.length; i++) {
+    const frame = frames[order[i]];
+    const imageChunks = readWebpImageChunks(await canvasToBytes(frame, 'image/webp', options.quality ?? 0.9));
+
+    anmfChunks.push(riffChunk('ANMF', concatBytes([
+      uint24LE(0),
+      uint24LE(0),
+      uint24LE(frame.width - 1),
+      uint24LE(frame.height - 1),
+      uint24LE(delay),
+      Uint8Array.of(0x02), // do not blend, no disposal
+      ...imageChunks,
+    ])));
+
+    options.onProgress?.((i + 1) / order.length);
+  }
+
+  const vp8x = riffChunk('VP8X', concatBytes([
+    Uint8Array.of(0x10 | 0x02, 0, 0, 0), // alpha + animation flags
+    uint24LE(width - 1),
+    uint24LE(height - 1),
+  ]));
+  const anim = riffChunk('ANIM', concatBytes([uint32LE(0), uint16LE(options.loopCount)]));
+  const body = concatBytes([asciiBytes('WEBP'), vp8x, anim, ...anmfChunks]);
+
+  return new Blob(
+    [toArrayBuffer(concatBytes([asciiBytes('RIFF'), uint32LE(body.length), body]))],
+    { type: ANIMATION_FORMATS.webp.mimeType }
+  );
+}
+
+export function encodeAnimation(
+  format: AnimationFormat,
+  frames: HTMLCanvasElement[],
+  options: AnimationExportOptions
+): Promise<Blob> {
+  switch (format) {
+    case 'gif':
+      return encodeGif(frames, options);
+    case 'apng':
+      return encodeApng(frames, options);
+    case 'webp':
+      return encodeWebp(frames, options);
+  }
+}
@@ -0,0 +1,228 @@
+import { getFrameRect } from "@/lib/sprite-sheet";
+import type { SheetDirection, SheetGeometry, SpriteStripData } from "@/types";
+
+export type AtlasFormat =
+  | 'texturepacker-hash'
+  | 'texturepacker-array'
+  | 'phaser3-multiatlas'
+  | 'aseprite';
+
+export const ATLAS_FORMAT_LABELS: Record<AtlasFormat, string> = {
+  'texturepacker-hash': 'TexturePacker JSON (Hash)',
+  'texturepacker-array': 'TexturePacker JSON (Array)',
+  'phaser3-multiatlas': 'Phaser 3 Multiatlas',
+  'aseprite': 'Aseprite JSON',
+};
+
+type Rect = { x: number; y: number; w: number; h: number };
+type Size = { w: number; h: number };
+type Point = { x: number; y: number };
+
+export interface AtlasFrame {
+  filename: string;
+  frame: Rect; // location on the sheet
+  rotated: boolean;
+  trimmed: boolean;
+  spriteSourceSize: Rect; // location of the trimmed frame inside the source frame
+  sourceSize: Size; // untrimmed frame size
+  pivot: Point; // normalised, 0-1
+  duration: number; // milliseconds
+}
+
+export interface AtlasTag {
+  name: string;
+  from: number;
+  to: number;
+  direction?: 'forward' | 'reverse' | 'pingpong';
+}
+
+export interface AtlasSource {
+  title: string;
+  imageFileName: string;
+  frameCount: number;
+  layout: SheetGeometry;
+  frameDuration?: number; // milliseconds per frame
+  pivot?: Point;
+  trim?: SpriteStripData['metadata']['trim']; // trimmed sheets: where each frame sat in the untrimmed frame
+  tags?: AtlasTag[];
+  directions?: SheetDirection[]; // directional sheets: one facing per row
+}
+
+export interface AtlasDirection extends SheetDirection {
+  from: number; // first frame index of the row
+  to: number; // last frame index of the row
+}
+
+const APP_URL = "https://github.com/teammeer/3dtostrip";
+const APP_VERSION = "1.0";
+
+export const getFrameName = (title: string, index: number) =>
+  `${title}_${String(index).padStart(4, '0')}`;
+
+export function buildAtlasFrames(source: AtlasSource): AtlasFrame[] {
+  const { layout } = source;
+  const pivot = source.pivot ?? { x: 0.5, y: 0.5 };
+  const duration = Math.round(source.frameDuration ?? 100);
+
+  return Array.from({ length: source.frameCount }, (_, index) => {
+    const rect = getFrameRect(layout, index);
+    const trimmed = source.trim?.frames[index];
+    const width = trimmed?.width ?? rect.width;
+    const height = trimmed?.height ?? rect.height;
+    return {
+      filename: `${getFrameName(source.title, index)}.png`,
+      frame: { x: rect.x, y: rect.y, w: width, h: height },
+      rotated: false,
+      trimmed: !!trimmed,
+      spriteSourceSize: { x: trimmed?.x ?? 0, y: trimmed?.y ?? 0, w: width, h: height },
+      sourceSize: source.trim
+        ? { w: source.trim.sourceWidth, h: source.trim.sourceHeight }
+        : { w: layout.frameWidth, h: layout.frameHeight },
+      pivot,
+      duration,
+    };
+  });
+}
+
+/**
+ * Frame ranges of a directional sheet's rows, for importers that map rows to
+ * facings. Empty for every other sheet.
+ */
+export function getAtlasDirections(source: AtlasSource): AtlasDirection[] {
+  const { columns } = source.layout;
+  return (source.directions ?? []).map((direction) => ({
+    ...direction,
+    from: direction.row * columns,
+    to: Math.min(source.frameCount, (direction.row + 1) * columns) - 1,
+  }));
+}
+
+// A directional sheet gets one tag per facing, anything else one tag for the whole sheet
+const getDefaultTags = (source: AtlasSource): AtlasTag[] => {
+  if (source.tags) return source.tags;
+  const directions = getAtlasDirections(source);
+  return directions.length > 0
+    ? directions.map(({ name, from, to }) => ({ name, from, to, direction: 'forward' }))
+    : [{ name: source.title, from: 0, to: source.frameCount - 1, direction: 'forward' }];
+};
+
+const buildMeta = (source: AtlasSource) => {
+  const directions = getAtlasDirections(source);
+  return {
+    app: APP_URL,
+    version: APP_VERSION,
+    image: source.imageFileName,
+    format: 'RGBA8888',
+    size: { w: source.layout.sheetWidth, h: source.layout.sheetHeight },
+    scale: '1',
+    ...(directions.length > 0 && { directions }),
+  };
+};
+
+const toTexturePackerFrame = (frame: AtlasFrame) => ({
+  frame: frame.frame,
+  rotated: frame.rotated,
+  trimmed: frame.trimmed,
+  spriteSourceSize: frame.spriteSourceSize,
+  sourceSize: frame.sourceSize,
+  pivot: frame.pivot,
+});
+
+function buildTexturePackerHash(source: AtlasSource) {
+  const frames = buildAtlasFrames(source);
+  return {
+    frames: Object.fromEntries(frames.map((frame) => [frame.filename, toTexturePackerFrame(frame)])),
+    meta: buildMeta(source),
+  };
+}
+
+function buildTexturePackerArray(source: AtlasSource) {
+  const frames = buildAtlasFrames(source);
+  return {
+    frames: frames.map((frame) => ({ filename: frame.filename, ...toTexturePackerFrame(frame) })),
+    meta: buildMeta(source),
+  };
+}
+
+function buildPhaserMultiatlas(source: AtlasSource) {
+  const frames = buildAtlasFrames(source);
+  return {
+    textures: [
+      {
+        image: source.imageFileName,
+        format: 'RGBA8888',
+        size: { w: source.layout.sheetWidth, h: source.layout.sheetHeight },
+        scale: 1,
+        frames: frames.map((frame) => ({ filename: frame.filename, ...toTexturePackerFrame(frame) })),
+      },
+    ],
+    meta: {
+      app: APP_URL,
+      version: APP_VERSION,
+      ...(source.directions && { directions: getAtlasDirections(source) }),
+    },
+  };
+}
+
+// Aseprite has no per-frame pivot, so the pivot is carried by a slice keyed on frame 0
+function buildAseprite(source: AtlasSource) {
+  const frames = buildAtlasFrames(source);
+  const first = frames[0];
+
+  return {
+    frames: frames.map((frame, index) => ({
+      filename: `${source.title} ${index}.aseprite`,
+      frame: frame.frame,
+      rotated: frame.rotated,
+      trimmed: frame.trimmed,
+      spriteSourceSize: frame.spriteSourceSize,
+      sourceSize: frame.sourceSize,
+      duration: frame.duration,
+    })),
+    meta: {
+      ...buildMeta(source),
+      frameTags: getDefaultTags(source).map((tag) => ({
+        name: tag.name,
+        from: tag.from,
+        to: tag.to,
+        direction: tag.direction ?? 'forward',
+      })),
+      layers: [{ name: 'Layer 1', opacity: 255, blendMode: 'normal' }],
+      slices: first
+        ? [
+            {
+              name: 'pivot',
+              color: '#0000ffff',
+              keys: [
+                {
+                  frame: 0,
+                  bounds: { x: 0, y: 0, w: first.sourceSize.w, h: first.sourceSize.h },
+                  pivot: {
+                    x: Math.round(first.pivot.x * first.sourceSize.w),
+                    y: Math.round(first.pivot.y * first.sourceSize.h),
+                  },
+                },
+              ],
+            },
+          ]
+        : [],
+    },
+  };
+}
+
+export function buildAtlas(format: AtlasFormat, source: AtlasSource): object {
+  switch (format) {
+    case 'texturepacker-hash':
+      return buildTexturePackerHash(source);
+    case 'texturepacker-array':
+      return buildTexturePackerArray(source);
+    case 'phaser3-multiatlas':
+      return buildPhaserMultiatlas(source);
+    case 'aseprite':
+      return buildAseprite(source);
+  }
+}
+
+export function serializeAtlas(format: AtlasFormat, source: AtlasSource): string {
+  return JSON.stringify(buildAtlas(format, source), null, 2);
+}
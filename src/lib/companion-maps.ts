@@ -0,0 +1,223 @@
+import * as THREE from "three";
+import type { CompanionMap, SpriteStripData } from "@/types";
+
+export const COMPANION_MAPS: CompanionMap[] = ['normal', 'depth', 'id'];
+
+export const COMPANION_MAP_LABELS: Record<CompanionMap, string> = {
+  normal: 'Normals',
+  depth: 'Depth',
+  id: 'ID Mask',
+};
+
+type CompanionInfo = NonNullable<SpriteStripData['metadata']['companions']>;
+type DepthRange = NonNullable<CompanionInfo['depthRange']>;
+type MaterialId = NonNullable<CompanionInfo['ids']>[number];
+
+// "hero_normal.png", the suffix most 2D lighting setups look for
+export const getCompanionFileName = (title: string, map: CompanionMap) => `${title}_${map}.png`;
+
+// Shared by the depth and ID passes: positions only, skinned and morphed like the model
+const FLAT_VERTEX_SHADER = /* glsl */ `
+#include <common>
+#include <batching_pars_vertex>
+#include <morphtarget_pars_vertex>
+#include <skinning_pars_vertex>
+
+varying float vViewDepth;
+
+void main() {
+  #include <batching_vertex>
+  #include <skinbase_vertex>
+  #include <morphinstance_vertex>
+  #include <begin_vertex>
+  #include <morphtarget_vertex>
+  #include <skinning_vertex>
+  #include <project_vertex>
+  vViewDepth = -mvPosition.z;
+}
+`;
+
+// Linear in camera distance, unlike the depth buffer; nearest is white
+const DEPTH_FRAGMENT_SHADER = /* glsl */ `
+uniform float depthNear;
+uniform float depthFar;
+varying float vViewDepth;
+
+void main() {
+  float depth = clamp((vViewDepth - depthNear) / (depthFar - depthNear), 0.0, 1.0);
+  gl_FragColor = vec4(vec3(1.0 - depth), 1.0);
+}
+`;
+
+// Written as is, without colour management, so the mask holds the exact legend colours
+const ID_FRAGMENT_SHADER = /* glsl */ `
+uniform vec3 idColor;
+
+void main() {
+  gl_FragColor = vec4(idColor, 1.0);
+}
+`;
+
+// Golden-ratio hue steps keep neighbouring IDs far apart
+const getIdColor = (index: number) =>
+  `#${new THREE.Color().setHSL((index * 0.618034) % 1, 0.85, 0.55, THREE.SRGBColorSpace).getHexString(THREE.SRGBColorSpace)}`;
+
+type MeshMaterials = Map<THREE.Mesh, THREE.Material | THREE.Material[]>;
+
+const listMeshes = (model: THREE.Object3D) => {
+  const meshes: THREE.Mesh[] = [];
+  model.traverse((child) => {
+    if (child instanceof THREE.Mesh) meshes.push(child);
+  });
+  return meshes;
+};
+
+const asList = (material: THREE.Material | THREE.Material[]) => (Array.isArray(material) ? material : [material]);
+
+/**
+ * One ID per material name. Materials without a name, such as the one built
+ * from the texture slots, take the name of their mesh instead.
+ */
+const listMaterialIds = (meshes: THREE.Mesh[]): Map<string, MaterialId> => {
+  const ids = new Map<string, MaterialId>();
+  meshes.forEach((mesh, meshIndex) => {
+    asList(mesh.material).forEach((material) => {
+      const name = material.name || mesh.name || `Mesh ${meshIndex + 1}`;
+      if (!ids.has(name)) ids.set(name, { name, color: getIdColor(ids.size) });
+    });
+  });
+  return ids;
+};
+
+const createPassMaterial = (
+  map: CompanionMap,
+  source: THREE.Material,
+  depthRange: DepthRange,
+  idColor: string
+): THREE.Material => {
+  if (map === 'normal') {
+    // Keeps the model's normal map, so surface detail reaches the lighting
+    const { normalMap, normalScale } = source as Partial<THREE.MeshStandardMaterial>;
+    return new THREE.MeshNormalMaterial({
+      side: source.side,
+      ...(normalMap && { normalMap, normalScale: normalScale?.clone() ?? new THREE.Vector2(1, 1) }),
+    });
+  }
+  return new THREE.ShaderMaterial({
+    vertexShader: FLAT_VERTEX_SHADER,
+    fragmentShader: map === 'depth' ? DEPTH_FRAGMENT_SHADER : ID_FRAGMENT_SHADER,
+    uniforms: map === 'depth'
+      ? { depthNear: { value: depthRange.near }, depthFar: { value: depthRange.far } }
+      : { idColor: { value: new THREE.Color().setHex(parseInt(idColor.slice(1), 16), THREE.LinearSRGBColorSpace) } },
+    side: source.side,
+  });
+};
+
+// Puts `materials` on their meshes and returns what was there before
+const swapMaterials = (materials: MeshMaterials): MeshMaterials => {
+  const previous: MeshMaterials = new Map();
+  materials.forEach((material, mesh) => {
+    previous.set(mesh, mesh.material);
+    mesh.material = material;
+  });
+  return previous;
+};
+
+/**
+ * Renders the companion maps of a posed scene. Each map swaps the model's
+ * materials for its own while it renders, so the frames match the colour
+ * strip exactly. Edges are not anti-aliased: a blended normal, depth or ID
+ * means nothing to the engine reading it.
+ *
+ * Normals are in view space, packed as colour = normal * 0.5 + 0.5: red
+ * points right, green up and blue towards the camera. Depth is linear
+ * between `depthRange.near` (white) and `.far` (black).
+ */
+export const createCompanionRenderer = (
+  model: THREE.Object3D,
+  maps: CompanionMap[],
+  { width, height, depthRange }: { width: number; height: number; depthRange: DepthRange }
+) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const renderer = new THREE.WebGLRenderer({ canvas, antialias: false, alpha: true, preserveDrawingBuffer: true });
+  renderer.setSize(width, height, false);
+  renderer.setClearColor(0x000000, 0);
+
+  const meshes = listMeshes(model);
+  const ids = listMaterialIds(meshes);
+  const getIdName = (mesh: THREE.Mesh, material: THREE.Material) =>
+    material.name || mesh.name || `Mesh ${meshes.indexOf(mesh) + 1}`;
+
+  const passes = maps.map((map) => {
+    // Meshes often share materials; each gets one replacement per map. An
+    // unnamed material shared by several meshes has an ID per mesh, though.
+    const replaced = new Map<THREE.Material | string, THREE.Material>();
+    const materials: MeshMaterials = new Map();
+    meshes.forEach((mesh) => {
+      const replace = (material: THREE.Material) => {
+        const name = getIdName(mesh, material);
+        const key = map === 'id' ? name : material;
+        if (!replaced.has(key)) {
+          replaced.set(key, createPassMaterial(map, material, depthRange, ids.get(name)?.color ?? '#ffffff'));
+        }
+        return replaced.get(key) as THREE.Material;
+      };
+      materials.set(mesh, Array.isArray(mesh.material) ? mesh.material.map(replace) : replace(mesh.material));
+    });
+    return { map, materials };
+  });
+
+  return {
+    canvas,
+    info: {
+      maps,
+      ...(maps.includes('depth') && { depthRange }),
+      ...(maps.includes('id') && { ids: Array.from(ids.values()) }),
+    } satisfies CompanionInfo,
+    // Renders each map of the current pose in turn; `capture` reads the canvas while it holds that map
+    render(scene: THREE.Scene, camera: THREE.Camera, capture: (map: CompanionMap) => void) {
+      // Maps are drawn on nothing, whatever the colour strip's background
+      const background = scene.background;
+      scene.background = null;
+      try {
+        for (const pass of passes) {
+          const previous = swapMaterials(pass.materials);
+          try {
+            renderer.render(scene, camera);
+          } finally {
+            swapMaterials(previous);
+          }
+          capture(pass.map);
+        }
+      } finally {
+        scene.background = background;
+      }
+    },
+    dispose() {
+      renderer.dispose();
+      renderer.forceContextLoss();
+      passes.forEach(({ materials }) => materials.forEach((material) => asList(material).forEach((entry) => entry.dispose())));
+    },
+  };
+};
+
+// Explains the companion strips of a sheet for the engine that imports them
+export const serializeCompanionMaps = (
+  imageFileName: string,
+  data: Pick<SpriteStripData, 'title' | 'metadata'>
+): string => {
+  const companions = data.metadata.companions;
+  return JSON.stringify(
+    {
+      image: imageFileName,
+      maps: Object.fromEntries((companions?.maps ?? []).map((map) => [map, getCompanionFileName(data.title || 'sprite', map)])),
+      normalSpace: 'view', // rgb = normal * 0.5 + 0.5; +x right, +y up, +z towards the camera
+      depthRange: companions?.depthRange,
+      ids: companions?.ids,
+    },
+    null,
+    2
+  );
+};
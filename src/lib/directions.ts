@@ -0,0 +1,30 @@
+import type { DirectionCount, SheetDirection } from "@/types";
+
+export const DIRECTION_COUNTS: DirectionCount[] = [4, 8, 16];
+
+// Clockwise from north, the top of the screen; a 16-wind rose
+const COMPASS_POINTS = [
+  'N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE',
+  'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW',
+];
+
+/**
+ * Facings of a directional sheet, one per row, starting at north and going
+ * clockwise. `angle` is the compass bearing in degrees.
+ */
+export const getSheetDirections = (count: DirectionCount): SheetDirection[] => {
+  const stride = COMPASS_POINTS.length / count;
+  return Array.from({ length: count }, (_, row) => ({
+    name: COMPASS_POINTS[row * stride],
+    angle: (360 * row) / count,
+    row,
+  }));
+};
+
+/**
+ * Turn around the vertical axis (in degrees) that makes a model facing +Z
+ * look towards `bearing` on screen. South faces the camera and north faces
+ * away from it, wherever the camera's azimuth puts it.
+ */
+export const getFacingAngle = (bearing: number, cameraAzimuth: number) =>
+  cameraAzimuth + 180 - bearing;
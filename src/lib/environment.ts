@@ -0,0 +1,57 @@
+import * as THREE from "three";
+import { HDRLoader } from "three/examples/jsm/loaders/HDRLoader.js";
+import { EXRLoader } from "three/examples/jsm/loaders/EXRLoader.js";
+import { getExtension } from "@/lib/model-resources";
+import type { EnvironmentMap, EnvironmentSettings } from "@/types";
+
+export const ENVIRONMENT_EXTENSIONS = ['.hdr', '.exr', '.png', '.jpg', '.jpeg'];
+
+// Small neutral studios served from public/, so lighting works without a download
+export const BUILT_IN_ENVIRONMENTS: { id: EnvironmentMap; name: string; url: string }[] = [
+  { id: 'studio-soft', name: 'Soft studio', url: '/hdri/studio-soft.hdr' },
+  { id: 'studio-contrast', name: 'High-contrast studio', url: '/hdri/studio-contrast.hdr' },
+];
+
+export const ENVIRONMENT_MAPS: EnvironmentMap[] = ['none', ...BUILT_IN_ENVIRONMENTS.map((map) => map.id), 'custom'];
+
+export const DEFAULT_ENVIRONMENT: EnvironmentSettings = {
+  map: 'none',
+  intensity: 1,
+  rotation: 0,
+  showBackground: false,
+};
+
+const HDR_EXTENSIONS = ['.hdr', '.exr'];
+
+/**
+ * Loads an equirectangular environment: a bundled studio, or the uploaded
+ * `file` for 'custom'. Radiance .hdr and OpenEXR stay in linear light; plain
+ * images are read as sRGB. Resolves to null for 'none'.
+ */
+export const loadEnvironmentMap = async (map: EnvironmentMap, file?: File | null): Promise<THREE.Texture | null> => {
+  if (map === 'none') return null;
+
+  const builtIn = BUILT_IN_ENVIRONMENTS.find((entry) => entry.id === map);
+  if (!builtIn && !file) {
+    throw new Error('Upload an environment map to use a custom environment');
+  }
+  const name = builtIn ? builtIn.url : (file as File).name;
+  const url = builtIn ? builtIn.url : URL.createObjectURL(file as File);
+  const extension = getExtension(name);
+
+  try {
+    const texture = extension === '.hdr'
+      ? await new HDRLoader().loadAsync(url)
+      : extension === '.exr'
+        ? await new EXRLoader().loadAsync(url)
+        : await new THREE.TextureLoader().loadAsync(url);
+    if (!HDR_EXTENSIONS.includes(extension)) texture.colorSpace = THREE.SRGBColorSpace;
+    texture.mapping = THREE.EquirectangularReflectionMapping;
+    return texture;
+  } catch (err) {
+    console.error('Failed to load environment map:', err);
+    throw new Error(`Failed to load environment map ${name}. Supported formats: HDR, EXR, PNG, JPG`);
+  } finally {
+    if (!builtIn) URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,156 @@
+import { hexToRgb, type Rgb } from "@/lib/pixel-art";
+import { getFrameRect, loadSheetImage } from "@/lib/sprite-sheet";
+import type { FrameSize, FrameTrim, PivotMode, SheetGeometry, SpriteStripData, TrimSettings } from "@/types";
+
+export type SheetTrim = NonNullable<SpriteStripData['metadata']['trim']>;
+export type FramePivot = NonNullable<SpriteStripData['metadata']['pivot']>;
+
+export const PIVOT_MODES: PivotMode[] = ['center', 'bottom-center', 'custom'];
+
+export const DEFAULT_TRIM: TrimSettings = {
+  enabled: false,
+  padding: 2,
+  pivot: 'center',
+  pivotX: 0.5,
+  pivotY: 0.5,
+};
+
+export const DEFAULT_PIVOT: FramePivot = { x: 0.5, y: 0.5 };
+
+// Anti-aliasing and lighting shift a flat background by a few levels
+const BACKGROUND_TOLERANCE = 8;
+
+/**
+ * Bounds of the pixels that are not background: any visible pixel on a
+ * transparent frame, or one that differs from `background`. Null when the
+ * frame is empty.
+ */
+export function findContentBounds(image: ImageData, background?: Rgb): FrameTrim | null {
+  const { data, width, height } = image;
+  let left = width;
+  let top = height;
+  let right = -1;
+  let bottom = -1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const isContent = background
+        ? Math.abs(data[i] - background[0]) > BACKGROUND_TOLERANCE
+          || Math.abs(data[i + 1] - background[1]) > BACKGROUND_TOLERANCE
+          || Math.abs(data[i + 2] - background[2]) > BACKGROUND_TOLERANCE
+        : data[i + 3] > 0;
+      if (!isContent) continue;
+      if (x < left) left = x;
+      if (x > right) right = x;
+      if (y < top) top = y;
+      if (y > bottom) bottom = y;
+    }
+  }
+
+  return right < 0 ? null : { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+}
+
+const readFrame = async (frame: string, context: CanvasRenderingContext2D) => {
+  const image = await loadSheetImage(frame);
+  context.canvas.width = image.naturalWidth;
+  context.canvas.height = image.naturalHeight;
+  context.drawImage(image, 0, 0);
+  return context.getImageData(0, 0, image.naturalWidth, image.naturalHeight);
+};
+
+// Content bounds of every frame (data URLs), on a transparent frame or over `background` (#rrggbb)
+export async function measureFrames(frames: string[], background?: string): Promise<(FrameTrim | null)[]> {
+  const context = document.createElement('canvas').getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Canvas 2D context is not available');
+  const backgroundRgb = background ? hexToRgb(background) : undefined;
+
+  const bounds: (FrameTrim | null)[] = [];
+  for (const frame of frames) {
+    bounds.push(findContentBounds(await readFrame(frame, context), backgroundRgb));
+  }
+  return bounds;
+}
+
+/**
+ * The pivot shared by every frame, as a fraction of the untrimmed frame.
+ * The feet sit at the lowest content pixel of the whole sheet, so a model
+ * that crouches or jumps keeps its ground line.
+ */
+export function resolvePivot(settings: TrimSettings, bounds: (FrameTrim | null)[], size: FrameSize): FramePivot {
+  if (settings.pivot === 'custom') return { x: settings.pivotX, y: settings.pivotY };
+  if (settings.pivot === 'bottom-center') {
+    const lowest = Math.max(-1, ...bounds.map((rect) => (rect ? rect.y + rect.height : -1)));
+    return { x: 0.5, y: lowest < 0 ? 1 : lowest / size.height };
+  }
+  return DEFAULT_PIVOT;
+}
+
+// Pads the content bounds and keeps them inside the frame; an empty frame keeps one pixel at its centre
+export const getTrimRects = (bounds: (FrameTrim | null)[], padding: number, size: FrameSize): FrameTrim[] =>
+  bounds.map((rect) => {
+    if (!rect) return { x: Math.floor(size.width / 2), y: Math.floor(size.height / 2), width: 1, height: 1 };
+    const x = Math.max(0, rect.x - padding);
+    const y = Math.max(0, rect.y - padding);
+    return {
+      x,
+      y,
+      width: Math.min(size.width, rect.x + rect.width + padding) - x,
+      height: Math.min(size.height, rect.y + rect.height + padding) - y,
+    };
+  });
+
+// Layout cells are as large as the largest trimmed frame
+export const getTrimCellSize = (rects: FrameTrim[]): FrameSize => ({
+  width: Math.max(1, ...rects.map((rect) => rect.width)),
+  height: Math.max(1, ...rects.map((rect) => rect.height)),
+});
+
+// Crops each frame (data URLs) to its rect
+export async function cropFrames(frames: string[], rects: FrameTrim[]): Promise<string[]> {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas 2D context is not available');
+
+  const cropped: string[] = [];
+  for (const [index, frame] of frames.entries()) {
+    const rect = rects[index];
+    const image = await loadSheetImage(frame);
+    canvas.width = rect.width;
+    canvas.height = rect.height;
+    context.drawImage(image, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height);
+    cropped.push(canvas.toDataURL('image/png'));
+  }
+  return cropped;
+}
+
+// The shared pivot in pixels from the top left of one trimmed frame
+export const getTrimmedPivot = (trim: SheetTrim, pivot: FramePivot, index: number) => ({
+  x: pivot.x * trim.sourceWidth - trim.frames[index].x,
+  y: pivot.y * trim.sourceHeight - trim.frames[index].y,
+});
+
+/**
+ * Per-frame bounds of a trimmed sheet for exports without an atlas: where
+ * each frame is on the sheet, where it sat in the untrimmed frame, and the
+ * pivot within it.
+ */
+export const serializeFrameBounds = (
+  imageFileName: string,
+  layout: SheetGeometry,
+  trim: SheetTrim,
+  pivot: FramePivot = DEFAULT_PIVOT
+) =>
+  JSON.stringify({
+    image: imageFileName,
+    sourceSize: { w: trim.sourceWidth, h: trim.sourceHeight },
+    pivot,
+    frames: trim.frames.map((rect, index) => {
+      const cell = getFrameRect(layout, index);
+      return {
+        frame: { x: cell.x, y: cell.y, w: rect.width, h: rect.height },
+        offset: { x: rect.x, y: rect.y },
+        pivot: getTrimmedPivot(trim, pivot, index),
+      };
+    }),
+  }, null, 2);
@@ -0,0 +1,404 @@
+import {
+  DEFAULT_ANIMATION,
+  DEFAULT_CAMERA,
+  DEFAULT_DIRECTIONAL,
+  DEFAULT_FRAME_COUNT,
+  DEFAULT_FRAME_SIZE,
+  DEFAULT_ROTATION,
+  MAX_FRAME_COUNT,
+  MIN_FRAME_COUNT,
+  type UseSpriteStripGeneratorOptions,
+} from "@/hooks/use-sprite-strip-generator";
+import { COMPANION_MAPS } from "@/lib/companion-maps";
+import { DIRECTION_COUNTS } from "@/lib/directions";
+import { DEFAULT_ENVIRONMENT, ENVIRONMENT_MAPS } from "@/lib/environment";
+import { DEFAULT_TRIM, PIVOT_MODES } from "@/lib/frame-trim";
+import { DEFAULT_LIGHTING, LIGHT_TYPES, MAX_LIGHTS, createLight } from "@/lib/lighting";
+import { DEFAULT_PIXEL_ART, DITHER_MODES, MAX_PALETTE_COLORS } from "@/lib/pixel-art";
+import { DEFAULT_SHEET_LAYOUT } from "@/lib/sprite-sheet";
+import type {
+  AnimationSampling,
+  AspectRatio,
+  BackgroundMode,
+  CameraProjection,
+  CompanionMap,
+  DirectionCount,
+  GenerationSettings,
+  LightSettings,
+  MaterialTextureMap,
+  PaletteSource,
+  RotationAxis,
+  RotationDirection,
+  SheetLayoutMode,
+  SourceMode,
+} from "@/types";
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  ratio: '4:3',
+  frameSize: DEFAULT_FRAME_SIZE,
+  sourceMode: 'turntable',
+  frameCount: DEFAULT_FRAME_COUNT,
+  rotation: DEFAULT_ROTATION,
+  animation: DEFAULT_ANIMATION,
+  directional: DEFAULT_DIRECTIONAL,
+  layout: DEFAULT_SHEET_LAYOUT,
+  backgroundColor: '#ffffff',
+  backgroundMode: 'color',
+  fringeFix: true,
+  camera: DEFAULT_CAMERA,
+  lighting: DEFAULT_LIGHTING,
+  environment: DEFAULT_ENVIRONMENT,
+  materialTextures: {},
+  pixelArt: DEFAULT_PIXEL_ART,
+  companionMaps: [],
+  trim: DEFAULT_TRIM,
+};
+
+export function toGeneratorOptions(settings: GenerationSettings): UseSpriteStripGeneratorOptions {
+  return {
+    ratio: settings.ratio,
+    frameSize: settings.frameSize,
+    sourceMode: settings.sourceMode,
+    frameCount: settings.frameCount,
+    rotation: settings.rotation,
+    animation: settings.animation,
+    directional: settings.directional,
+    layout: settings.layout,
+    backgroundColor: settings.backgroundColor,
+    backgroundMode: settings.backgroundMode,
+    fringeFix: settings.fringeFix,
+    camera: settings.camera,
+    lighting: {
+      ambientLight: { intensity: settings.lighting.ambientIntensity },
+      lights: settings.lighting.lights,
+    },
+    environment: settings.environment,
+    materialTextures: settings.materialTextures,
+    pixelArt: settings.pixelArt,
+    companionMaps: settings.companionMaps,
+    trim: settings.trim,
+  };
+}
+
+// Ranges of the form controls; parsed settings are clamped to these
+export const SETTINGS_LIMITS = {
+  frameCount: { min: MIN_FRAME_COUNT, max: MAX_FRAME_COUNT },
+  frameSize: { min: 16, max: 4096 },
+  angle: { min: 0, max: 360 },
+  animationFps: { min: 1, max: 60 },
+  gridCount: { min: 1, max: MAX_FRAME_COUNT },
+  padding: { min: 0, max: 64 },
+  ambientIntensity: { min: 0.1, max: 2.0 },
+  directionalIntensity: { min: 0.1, max: 3.0 }, // the single light of settings saved before the rig editor
+  lightIntensity: { min: 0, max: 10 },
+  lightPosition: { min: -10, max: 10 },
+  spotAngle: { min: 1, max: 90 },
+  penumbra: { min: 0, max: 1 },
+  environmentIntensity: { min: 0, max: 5 },
+  environmentRotation: { min: -180, max: 180 },
+  elevation: { min: -90, max: 90 },
+  azimuth: { min: -180, max: 180 },
+  fov: { min: 10, max: 120 },
+  fitPadding: { min: 0, max: 2 },
+  distance: { min: 0.5, max: 20 },
+  orthoZoom: { min: 0.25, max: 8 },
+  pixelScale: { min: 1, max: 16 },
+  paletteColors: { min: 2, max: MAX_PALETTE_COLORS },
+  trimPadding: { min: 0, max: 64 },
+  pivot: { min: 0, max: 1 },
+} as const;
+
+const RATIOS: AspectRatio[] = ['16:9', '4:3', '1:1', 'custom', 'auto'];
+const SOURCE_MODES: SourceMode[] = ['turntable', 'animation', 'directional'];
+const SAMPLINGS: AnimationSampling[] = ['fps', 'frames'];
+const AXES: RotationAxis[] = ['x', 'y', 'z'];
+const DIRECTIONS: RotationDirection[] = ['clockwise', 'counterclockwise'];
+const LAYOUT_MODES: SheetLayoutMode[] = ['horizontal', 'vertical', 'grid'];
+const BACKGROUND_MODES: BackgroundMode[] = ['color', 'transparent'];
+const PROJECTIONS: CameraProjection[] = ['perspective', 'orthographic'];
+const PALETTE_SOURCES: PaletteSource[] = ['none', 'auto', 'custom'];
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export interface ParsedSettings {
+  settings: GenerationSettings;
+  issues: string[]; // human readable notes about values that were replaced or clamped
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Turns untrusted input (an imported file, a URL) into complete settings.
+ * Missing values fall back to `fallback`, out-of-range numbers are clamped,
+ * and every correction is reported in `issues`.
+ */
+export function parseGenerationSettings(
+  input: unknown,
+  fallback: GenerationSettings = DEFAULT_GENERATION_SETTINGS
+): ParsedSettings {
+  const issues: string[] = [];
+  const source = isRecord(input) ? input : {};
+  if (!isRecord(input)) issues.push('Settings are not an object; using defaults');
+
+  const readNumber = (
+    value: unknown,
+    path: string,
+    limits: { min: number; max: number },
+    defaultValue: number,
+    integer = false
+  ) => {
+    if (value === undefined) return defaultValue;
+    const parsed = typeof value === 'string' ? Number(value) : value;
+    if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+      issues.push(`${path} is not a number; using ${defaultValue}`);
+      return defaultValue;
+    }
+    const rounded = integer ? Math.round(parsed) : parsed;
+    const clamped = Math.min(limits.max, Math.max(limits.min, rounded));
+    if (clamped !== rounded) issues.push(`${path} was clamped to ${clamped}`);
+    return clamped;
+  };
+
+  const readOption = <T extends string>(value: unknown, path: string, options: T[], defaultValue: T): T => {
+    if (value === undefined) return defaultValue;
+    if (options.includes(value as T)) return value as T;
+    issues.push(`${path} "${String(value)}" is not supported; using ${defaultValue}`);
+    return defaultValue;
+  };
+
+  const readBoolean = (value: unknown, path: string, defaultValue: boolean) => {
+    if (value === undefined) return defaultValue;
+    if (value === true || value === 'true' || value === '1') return true;
+    if (value === false || value === 'false' || value === '0') return false;
+    issues.push(`${path} "${String(value)}" is not true or false; using ${defaultValue}`);
+    return defaultValue;
+  };
+
+  const readColor = (value: unknown, path: string, defaultValue: string) => {
+    if (value === undefined) return defaultValue;
+    if (typeof value === 'string' && HEX_COLOR.test(value)) return value.toLowerCase();
+    issues.push(`${path} "${String(value)}" is not a #rrggbb colour; using ${defaultValue}`);
+    return defaultValue;
+  };
+
+  const readLight = (value: unknown, path: string): LightSettings | null => {
+    if (!isRecord(value)) {
+      issues.push(`${path} is not a light and was dropped`);
+      return null;
+    }
+    const type = readOption(value.type, `${path}.type`, LIGHT_TYPES, 'directional');
+    const base = createLight(type);
+    const position = isRecord(value.position) ? value.position : {};
+    return {
+      type,
+      color: readColor(value.color, `${path}.color`, base.color),
+      intensity: readNumber(value.intensity, `${path}.intensity`, SETTINGS_LIMITS.lightIntensity, base.intensity),
+      position: {
+        x: readNumber(position.x, `${path}.position.x`, SETTINGS_LIMITS.lightPosition, base.position.x),
+        y: readNumber(position.y, `${path}.position.y`, SETTINGS_LIMITS.lightPosition, base.position.y),
+        z: readNumber(position.z, `${path}.position.z`, SETTINGS_LIMITS.lightPosition, base.position.z),
+      },
+      castShadow: readBoolean(value.castShadow, `${path}.castShadow`, base.castShadow),
+      groundColor: readColor(value.groundColor, `${path}.groundColor`, base.groundColor),
+      angle: readNumber(value.angle, `${path}.angle`, SETTINGS_LIMITS.spotAngle, base.angle),
+      penumbra: readNumber(value.penumbra, `${path}.penumbra`, SETTINGS_LIMITS.penumbra, base.penumbra),
+    };
+  };
+
+  const readLights = (value: unknown, legacyIntensity: unknown): LightSettings[] => {
+    if (value === undefined) {
+      // Settings from before the rig editor only had the one key light's intensity
+      if (legacyIntensity === undefined) return fallback.lighting.lights;
+      const intensity = readNumber(legacyIntensity, 'lighting.directionalIntensity', SETTINGS_LIMITS.directionalIntensity, DEFAULT_LIGHTING.lights[0].intensity);
+      return [{ ...DEFAULT_LIGHTING.lights[0], intensity }];
+    }
+    if (!Array.isArray(value)) {
+      issues.push('lighting.lights is not a list of lights; using the current lights');
+      return fallback.lighting.lights;
+    }
+    if (value.length > MAX_LIGHTS) issues.push(`Only the first ${MAX_LIGHTS} lights were kept`);
+    return value
+      .slice(0, MAX_LIGHTS)
+      .map((light, index) => readLight(light, `lighting.lights[${index}]`))
+      .filter((light): light is LightSettings => light !== null);
+  };
+
+  const readMaterialTextures = (value: unknown, defaultValue: MaterialTextureMap): MaterialTextureMap => {
+    if (value === undefined) return defaultValue;
+    if (!isRecord(value)) {
+      issues.push('materialTextures is not a material to texture mapping; using the current one');
+      return defaultValue;
+    }
+    return Object.fromEntries(
+      Object.entries(value).filter(([material, textureName]) => {
+        if (textureName === null || typeof textureName === 'string') return true;
+        issues.push(`materialTextures["${material}"] is not a texture name and was dropped`);
+        return false;
+      })
+    ) as MaterialTextureMap;
+  };
+
+  // A list, or a comma separated string as it comes from a link
+  const readStringList = (value: unknown, path: string, defaultValue: string[]) => {
+    if (value === undefined) return defaultValue;
+    if (typeof value === 'string') return value.split(',').map((item) => item.trim()).filter(Boolean);
+    if (Array.isArray(value) && value.every((item) => typeof item === 'string')) return value as string[];
+    issues.push(`${path} is not a list of names; using ${defaultValue.length > 0 ? defaultValue.join(', ') : 'none'}`);
+    return defaultValue;
+  };
+
+  const readPalette = (value: unknown, defaultValue: string[]) => {
+    const colors = readStringList(value, 'pixelArt.customPalette', defaultValue);
+    const valid = colors.filter((color) => HEX_COLOR.test(color)).map((color) => color.toLowerCase());
+    if (valid.length < colors.length) issues.push(`${colors.length - valid.length} palette colours are not #rrggbb and were dropped`);
+    if (valid.length > MAX_PALETTE_COLORS) issues.push(`Only the first ${MAX_PALETTE_COLORS} palette colours were kept`);
+    return valid.slice(0, MAX_PALETTE_COLORS);
+  };
+
+  const readCompanionMaps = (value: unknown, defaultValue: CompanionMap[]) => {
+    const maps = readStringList(value, 'companionMaps', defaultValue);
+    const valid = COMPANION_MAPS.filter((map) => maps.includes(map));
+    const unknown = maps.filter((map) => !COMPANION_MAPS.includes(map as CompanionMap));
+    if (unknown.length > 0) issues.push(`Unknown companion maps were dropped: ${unknown.join(', ')}`);
+    return valid;
+  };
+
+  const readDirectionCount = (value: unknown, path: string, defaultValue: DirectionCount) => {
+    if (value === undefined) return defaultValue;
+    const parsed = Number(value);
+    if (DIRECTION_COUNTS.includes(parsed as DirectionCount)) return parsed as DirectionCount;
+    issues.push(`${path} "${String(value)}" is not one of ${DIRECTION_COUNTS.join(', ')}; using ${defaultValue}`);
+    return defaultValue;
+  };
+
+  // null and '' clear the value; missing keeps the fallback
+  const readOptionalString = (value: unknown, path: string, defaultValue: string | undefined) => {
+    if (value === undefined) return defaultValue;
+    if (value === null || value === '') return undefined;
+    if (typeof value === 'string') return value;
+    issues.push(`${path} is not text; using ${defaultValue ?? 'none'}`);
+    return defaultValue;
+  };
+
+  // null, '' and 'auto' clear the value; missing keeps the fallback
+  const readOptionalNumber = (
+    value: unknown,
+    path: string,
+    limits: { min: number; max: number },
+    defaultValue: number | undefined,
+    integer = false
+  ) => {
+    if (value === undefined || value === null || value === '' || value === 'auto') {
+      return value === undefined ? defaultValue : undefined;
+    }
+    return readNumber(value, path, limits, defaultValue ?? limits.min, integer);
+  };
+
+  const frameSize = isRecord(source.frameSize) ? source.frameSize : {};
+  const rotation = isRecord(source.rotation) ? source.rotation : {};
+  const layout = isRecord(source.layout) ? source.layout : {};
+  const lighting = isRecord(source.lighting) ? source.lighting : {};
+  const camera = isRecord(source.camera) ? source.camera : {};
+  const animation = isRecord(source.animation) ? source.animation : {};
+  const directional = isRecord(source.directional) ? source.directional : {};
+  const environment = isRecord(source.environment) ? source.environment : {};
+  const pixelArt = isRecord(source.pixelArt) ? source.pixelArt : {};
+  const trim = isRecord(source.trim) ? source.trim : {};
+
+  const settings: GenerationSettings = {
+    ratio: readOption(source.ratio, 'ratio', RATIOS, fallback.ratio),
+    frameSize: {
+      width: readNumber(frameSize.width, 'frameSize.width', SETTINGS_LIMITS.frameSize, fallback.frameSize.width, true),
+      height: readNumber(frameSize.height, 'frameSize.height', SETTINGS_LIMITS.frameSize, fallback.frameSize.height, true),
+    },
+    sourceMode: readOption(source.sourceMode, 'sourceMode', SOURCE_MODES, fallback.sourceMode),
+    frameCount: readNumber(source.frameCount, 'frameCount', SETTINGS_LIMITS.frameCount, fallback.frameCount, true),
+    rotation: {
+      startAngle: readNumber(rotation.startAngle, 'rotation.startAngle', SETTINGS_LIMITS.angle, fallback.rotation.startAngle),
+      endAngle: readNumber(rotation.endAngle, 'rotation.endAngle', SETTINGS_LIMITS.angle, fallback.rotation.endAngle),
+      axis: readOption(rotation.axis, 'rotation.axis', AXES, fallback.rotation.axis),
+      direction: readOption(rotation.direction, 'rotation.direction', DIRECTIONS, fallback.rotation.direction),
+    },
+    animation: {
+      clips: readStringList(animation.clips, 'animation.clips', fallback.animation.clips),
+      sampling: readOption(animation.sampling, 'animation.sampling', SAMPLINGS, fallback.animation.sampling),
+      fps: readNumber(animation.fps, 'animation.fps', SETTINGS_LIMITS.animationFps, fallback.animation.fps, true),
+      frameCount: readNumber(animation.frameCount, 'animation.frameCount', SETTINGS_LIMITS.frameCount, fallback.animation.frameCount, true),
+    },
+    directional: {
+      directions: readDirectionCount(directional.directions, 'directional.directions', fallback.directional.directions),
+      clip: readOptionalString(directional.clip, 'directional.clip', fallback.directional.clip),
+    },
+    layout: {
+      mode: readOption(layout.mode, 'layout.mode', LAYOUT_MODES, fallback.layout.mode),
+      columns: readOptionalNumber(layout.columns, 'layout.columns', SETTINGS_LIMITS.gridCount, fallback.layout.columns, true),
+      rows: readOptionalNumber(layout.rows, 'layout.rows', SETTINGS_LIMITS.gridCount, fallback.layout.rows, true),
+      padding: readNumber(layout.padding, 'layout.padding', SETTINGS_LIMITS.padding, fallback.layout.padding, true),
+    },
+    backgroundColor: readColor(source.backgroundColor, 'backgroundColor', fallback.backgroundColor),
+    backgroundMode: readOption(source.backgroundMode, 'backgroundMode', BACKGROUND_MODES, fallback.backgroundMode),
+    fringeFix: readBoolean(source.fringeFix, 'fringeFix', fallback.fringeFix),
+    camera: {
+      projection: readOption(camera.projection, 'camera.projection', PROJECTIONS, fallback.camera.projection),
+      elevation: readNumber(camera.elevation, 'camera.elevation', SETTINGS_LIMITS.elevation, fallback.camera.elevation),
+      azimuth: readNumber(camera.azimuth, 'camera.azimuth', SETTINGS_LIMITS.azimuth, fallback.camera.azimuth),
+      fov: readNumber(camera.fov, 'camera.fov', SETTINGS_LIMITS.fov, fallback.camera.fov),
+      fitPadding: readNumber(camera.fitPadding, 'camera.fitPadding', SETTINGS_LIMITS.fitPadding, fallback.camera.fitPadding),
+      distance: readOptionalNumber(camera.distance, 'camera.distance', SETTINGS_LIMITS.distance, fallback.camera.distance),
+      orthoZoom: readNumber(camera.orthoZoom, 'camera.orthoZoom', SETTINGS_LIMITS.orthoZoom, fallback.camera.orthoZoom),
+    },
+    lighting: {
+      ambientIntensity: readNumber(lighting.ambientIntensity, 'lighting.ambientIntensity', SETTINGS_LIMITS.ambientIntensity, fallback.lighting.ambientIntensity),
+      lights: readLights(lighting.lights, lighting.directionalIntensity),
+    },
+    environment: {
+      map: readOption(environment.map, 'environment.map', ENVIRONMENT_MAPS, fallback.environment.map),
+      intensity: readNumber(environment.intensity, 'environment.intensity', SETTINGS_LIMITS.environmentIntensity, fallback.environment.intensity),
+      rotation: readNumber(environment.rotation, 'environment.rotation', SETTINGS_LIMITS.environmentRotation, fallback.environment.rotation),
+      showBackground: readBoolean(environment.showBackground, 'environment.showBackground', fallback.environment.showBackground),
+    },
+    materialTextures: readMaterialTextures(source.materialTextures, fallback.materialTextures),
+    pixelArt: {
+      enabled: readBoolean(pixelArt.enabled, 'pixelArt.enabled', fallback.pixelArt.enabled),
+      scale: readNumber(pixelArt.scale, 'pixelArt.scale', SETTINGS_LIMITS.pixelScale, fallback.pixelArt.scale, true),
+      outline: readBoolean(pixelArt.outline, 'pixelArt.outline', fallback.pixelArt.outline),
+      outlineColor: readColor(pixelArt.outlineColor, 'pixelArt.outlineColor', fallback.pixelArt.outlineColor),
+      palette: readOption(pixelArt.palette, 'pixelArt.palette', PALETTE_SOURCES, fallback.pixelArt.palette),
+      colors: readNumber(pixelArt.colors, 'pixelArt.colors', SETTINGS_LIMITS.paletteColors, fallback.pixelArt.colors, true),
+      customPalette: readPalette(pixelArt.customPalette, fallback.pixelArt.customPalette),
+      dither: readOption(pixelArt.dither, 'pixelArt.dither', DITHER_MODES, fallback.pixelArt.dither),
+      lockPalette: readBoolean(pixelArt.lockPalette, 'pixelArt.lockPalette', fallback.pixelArt.lockPalette),
+    },
+    companionMaps: readCompanionMaps(source.companionMaps, fallback.companionMaps),
+    trim: {
+      enabled: readBoolean(trim.enabled, 'trim.enabled', fallback.trim.enabled),
+      padding: readNumber(trim.padding, 'trim.padding', SETTINGS_LIMITS.trimPadding, fallback.trim.padding, true),
+      pivot: readOption(trim.pivot, 'trim.pivot', PIVOT_MODES, fallback.trim.pivot),
+      pivotX: readNumber(trim.pivotX, 'trim.pivotX', SETTINGS_LIMITS.pivot, fallback.trim.pivotX),
+      pivotY: readNumber(trim.pivotY, 'trim.pivotY', SETTINGS_LIMITS.pivot, fallback.trim.pivotY),
+    },
+  };
+
+  if (settings.rotation.startAngle >= settings.rotation.endAngle) {
+    issues.push('rotation.startAngle must be below rotation.endAngle; using the default arc');
+    settings.rotation = { ...settings.rotation, startAngle: fallback.rotation.startAngle, endAngle: fallback.rotation.endAngle };
+  }
+
+  return { settings, issues };
+}
+
+// Key-order independent JSON, so equal settings always compare equal
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (isRecord(value)) {
+    return `{${Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+export const isSameSettings = (a: GenerationSettings, b: GenerationSettings) =>
+  canonicalJson(a) === canonicalJson(b);
@@ -0,0 +1,83 @@
+import { getTextureFiles } from "@/lib/texture-slots";
+import type { HistoryEntry } from "@/types";
+
+const DB_NAME = '3dtostrip';
+const DB_VERSION = 1;
+const STORE_NAME = 'history';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Failed to open history database'));
+  });
+
+  // Let a later call retry if opening failed
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = action(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? new Error('History database request failed'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('History database request was aborted'));
+  });
+};
+
+export async function listHistoryEntries(): Promise<HistoryEntry[]> {
+  const entries = await runRequest<HistoryEntry[]>('readonly', (store) => store.index('createdAt').getAll());
+  return entries.reverse(); // newest first
+}
+
+export async function putHistoryEntry(entry: HistoryEntry): Promise<void> {
+  await runRequest('readwrite', (store) => store.put(entry));
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+  await runRequest('readwrite', (store) => store.delete(id));
+}
+
+export async function clearHistory(): Promise<void> {
+  await runRequest('readwrite', (store) => store.clear());
+}
+
+export const getEntrySize = (entry: HistoryEntry) =>
+  entry.image.size +
+  Object.values(entry.companions ?? {}).reduce((sum, blob) => sum + blob.size, 0) +
+  (entry.model?.size ?? 0) +
+  (entry.texture?.size ?? 0) +
+  getTextureFiles(entry.textures ?? {}).reduce((sum, file) => sum + file.size, 0) +
+  (entry.materialTextures ?? []).reduce((sum, file) => sum + file.size, 0) +
+  (entry.resources ?? []).reduce((sum, file) => sum + file.size, 0) +
+  (entry.environment?.size ?? 0);
+
+export async function getStorageEstimate(): Promise<{ usage: number; quota: number } | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
@@ -0,0 +1,125 @@
+import type { GenerationSettings, LightSettings, LightType } from "@/types";
+
+export const LIGHT_TYPES: LightType[] = ['directional', 'point', 'spot', 'hemisphere'];
+
+export const LIGHT_TYPE_LABELS: Record<LightType, string> = {
+  directional: 'Directional',
+  point: 'Point',
+  spot: 'Spot',
+  hemisphere: 'Hemisphere',
+};
+
+export const MAX_LIGHTS = 8;
+
+const BASE_LIGHT: LightSettings = {
+  type: 'directional',
+  color: '#ffffff',
+  intensity: 1,
+  position: { x: 2, y: 2, z: 2 },
+  castShadow: false,
+  groundColor: '#444444',
+  angle: 30,
+  penumbra: 0.3,
+};
+
+// New lights start somewhere sensible for their type
+export const createLight = (type: LightType): LightSettings => ({
+  ...BASE_LIGHT,
+  type,
+  position: type === 'hemisphere' ? { x: 0, y: 1, z: 0 } : { ...BASE_LIGHT.position },
+  intensity: type === 'hemisphere' ? 0.6 : 1,
+});
+
+// A single key light up and to the right of the camera, as the generator has always lit models
+export const DEFAULT_LIGHTING: GenerationSettings['lighting'] = {
+  ambientIntensity: 0.8,
+  lights: [BASE_LIGHT],
+};
+
+export interface LightRigPreset {
+  id: string;
+  name: string;
+  lighting: GenerationSettings['lighting'];
+}
+
+export const LIGHT_RIG_PRESETS: LightRigPreset[] = [
+  {
+    id: 'single-key',
+    name: 'Single key light',
+    lighting: DEFAULT_LIGHTING,
+  },
+  {
+    id: 'three-point',
+    name: 'Three-point',
+    lighting: {
+      ambientIntensity: 0.3,
+      lights: [
+        { ...BASE_LIGHT, position: { x: -2, y: 2, z: 2 }, intensity: 1.5, castShadow: true },
+        { ...BASE_LIGHT, position: { x: 2.5, y: 0.5, z: 2 }, intensity: 0.5, color: '#dfe8ff' },
+        { ...BASE_LIGHT, position: { x: 0.5, y: 2.5, z: -2.5 }, intensity: 1.2 },
+      ],
+    },
+  },
+  {
+    id: 'three-point-dramatic',
+    name: 'Three-point, high contrast',
+    lighting: {
+      ambientIntensity: 0.1,
+      lights: [
+        { ...BASE_LIGHT, position: { x: -2.5, y: 1.5, z: 1.5 }, intensity: 2, castShadow: true },
+        { ...BASE_LIGHT, position: { x: 2.5, y: 0, z: 2 }, intensity: 0.2 },
+        { ...BASE_LIGHT, position: { x: 1, y: 2, z: -2.5 }, intensity: 1.8, color: '#ffd9a8' },
+      ],
+    },
+  },
+  {
+    id: 'outdoor',
+    name: 'Soft outdoor',
+    lighting: {
+      ambientIntensity: 0.2,
+      lights: [
+        { ...createLight('hemisphere'), color: '#cfe6ff', groundColor: '#6b5a45', intensity: 1.2 },
+        { ...BASE_LIGHT, position: { x: -1, y: 3, z: 1 }, intensity: 1.5, color: '#fff3d6', castShadow: true },
+      ],
+    },
+  },
+];
+
+// Links carry the rig as "type_color_intensity_x_y_z_shadow_ground_angle_penumbra", one light per "~"
+const LIGHT_SEPARATOR = '~';
+const FIELD_SEPARATOR = '_';
+
+export const encodeLights = (lights: LightSettings[]): string =>
+  lights
+    .map((light) => [
+      light.type,
+      light.color.replace(/^#/, ''),
+      light.intensity,
+      light.position.x,
+      light.position.y,
+      light.position.z,
+      light.castShadow ? 1 : 0,
+      light.groundColor.replace(/^#/, ''),
+      light.angle,
+      light.penumbra,
+    ].join(FIELD_SEPARATOR))
+    .join(LIGHT_SEPARATOR);
+
+// Only splits the text back into fields; parseGenerationSettings validates them
+export const decodeLights = (text: string): Record<string, unknown>[] =>
+  text
+    .split(LIGHT_SEPARATOR)
+    .filter(Boolean)
+    .map((entry) => {
+      const [type, color, intensity, x, y, z, castShadow, groundColor, angle, penumbra] = entry.split(FIELD_SEPARATOR);
+      return {
+        type,
+        color: color === undefined ? undefined : `#${color}`,
+        intensity,
+        position: { x, y, z },
+        castShadow,
+        groundColor: groundColor === undefined ? undefined : `#${groundColor}`,
+        angle,
+        penumbra,
+      };
+    });
@@ -0,0 +1,227 @@
+import * as THREE from "three";
+
+export const MODEL_EXTENSIONS = ['.gltf', '.glb', '.fbx', '.obj'];
+export const RESOURCE_EXTENSIONS = ['.bin', '.mtl', '.png', '.jpg', '.jpeg', '.webp', '.gif', '.bmp', '.tga', '.ktx2'];
+
+// Files read from a dropped folder cannot carry webkitRelativePath, so their paths are kept here
+const relativePaths = new WeakMap<File, string>();
+
+export const setRelativePath = (file: File, path: string) => {
+  relativePaths.set(file, path);
+};
+
+export const getRelativePath = (file: File) =>
+  relativePaths.get(file) || file.webkitRelativePath || file.name;
+
+export const getExtension = (fileName: string) => {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.slice(dot).toLowerCase();
+};
+
+export const isModelFile = (file: File) => MODEL_EXTENSIONS.includes(getExtension(file.name));
+
+export const isAcceptedUpload = (file: File) =>
+  isModelFile(file) || RESOURCE_EXTENSIONS.includes(getExtension(file.name));
+
+const normalizePath = (path: string) => {
+  let decoded = path;
+  try {
+    decoded = decodeURIComponent(path);
+  } catch {
+    // Keep malformed escapes as they are
+  }
+  return decoded
+    .replace(/\\/g, '/')
+    .replace(/^(\.\.?\/)+/, '')
+    .replace(/^\/+/, '')
+    .toLowerCase();
+};
+
+/**
+ * Finds the uploaded file a relative URI points at. Paths are compared as
+ * suffixes of the uploaded paths, so a folder upload matches
+ * "textures/wood.png" exactly; loose files fall back to the name alone.
+ */
+export function resolveResource(uri: string, files: File[]): File | undefined {
+  const target = normalizePath(uri);
+  const baseName = target.split('/').pop();
+
+  return files.find((file) => {
+    const path = normalizePath(getRelativePath(file));
+    return path === target || path.endsWith(`/${target}`);
+  }) ?? files.find((file) => file.name.toLowerCase() === baseName);
+}
+
+const isExternalUri = (uri: unknown): uri is string =>
+  typeof uri === 'string' && uri !== '' && !/^(data|blob|https?):/i.test(uri);
+
+const readGltfJson = async (file: File): Promise<unknown> => {
+  if (getExtension(file.name) === '.gltf') return JSON.parse(await file.text());
+
+  // GLB: 12 byte header, then the JSON chunk (length, type, data)
+  const view = new DataView(await file.arrayBuffer());
+  if (view.byteLength < 20 || view.getUint32(0, true) !== 0x46546c67) return null;
+  const chunkLength = view.getUint32(12, true);
+  const json = new TextDecoder().decode(new Uint8Array(view.buffer, 20, chunkLength));
+  return JSON.parse(json);
+};
+
+const listGltfReferences = async (file: File): Promise<string[]> => {
+  const json = await readGltfJson(file) as { buffers?: { uri?: unknown }[]; images?: { uri?: unknown }[] } | null;
+  return [...(json?.buffers ?? []), ...(json?.images ?? [])]
+    .map((entry) => entry.uri)
+    .filter(isExternalUri);
+};
+
+// The file name is the last token; anything before it is a map option such as "-bm 1.0"
+const MTL_MAP_LINE = /^\s*(map_\w+|bump|disp|decal|refl|norm)\s+(.+)$/i;
+
+const listMtlReferences = async (file: File): Promise<string[]> =>
+  (await file.text())
+    .split(/\r?\n/)
+    .map((line) => line.match(MTL_MAP_LINE)?.[2].trim().split(/\s+/).pop())
+    .filter(isExternalUri);
+
+export const listObjMaterialLibraries = (objText: string): string[] =>
+  objText
+    .split(/\r?\n/)
+    .map((line) => line.match(/^\s*mtllib\s+(.+)$/)?.[1].trim())
+    .filter(isExternalUri);
+
+/**
+ * Lists the external files a model refers to: glTF buffers and images, and
+ * an OBJ's material libraries together with the textures those use.
+ */
+export async function listModelReferences(modelFile: File, files: File[]): Promise<string[]> {
+  const extension = getExtension(modelFile.name);
+  if (extension === '.gltf' || extension === '.glb') {
+    return listGltfReferences(modelFile);
+  }
+  if (extension === '.obj') {
+    const libraries = listObjMaterialLibraries(await modelFile.text());
+    const nested = await Promise.all(libraries.map((library) => {
+      const mtlFile = resolveResource(library, files);
+      return mtlFile ? listMtlReferences(mtlFile) : Promise.resolve([]);
+    }));
+    return [...libraries, ...nested.flat()];
+  }
+  return [];
+}
+
+/**
+ * Picks the files a model refers to out of a shared upload, so several
+ * models and their companion files can be dropped together.
+ */
+export async function pickModelResources(modelFile: File, files: File[]): Promise<File[]> {
+  const references = await listModelReferences(modelFile, files);
+  const picked = references
+    .map((uri) => resolveResource(uri, files))
+    .filter((file): file is File => file !== undefined);
+  return Array.from(new Set(picked));
+}
+
+export async function findMissingResources(modelFile: File, files: File[]): Promise<string[]> {
+  const references = await listModelReferences(modelFile, files);
+  return Array.from(new Set(references.filter((uri) => !resolveResource(uri, files))));
+}
+
+/**
+ * A loading manager that serves relative URIs from the uploaded files.
+ * Loaders resolve them against the model's blob: URL, so that base is
+ * stripped before matching. `idle()` resolves once every request the
+ * manager has started is finished, which includes textures that loaders
+ * such as MTLLoader are still fetching when the model itself resolves.
+ */
+export function createResourceManager(files: File[]) {
+  const objectUrls = new Map<File, string>();
+  const knownUrls = new Set<string>();
+  const missing = new Set<string>();
+  const manager = new THREE.LoadingManager();
+  let loading = false;
+  let waiters: (() => void)[] = [];
+
+  const urlFor = (file: File) => {
+    let url = objectUrls.get(file);
+    if (!url) {
+      url = URL.createObjectURL(file);
+      objectUrls.set(file, url);
+      knownUrls.add(url);
+    }
+    return url;
+  };
+
+  manager.setURLModifier((url) => {
+    if (url.startsWith('data:') || knownUrls.has(url)) return url;
+    const relative = url.replace(/^blob:[a-z]+:\/\/[^/]+\//i, '');
+    const file = resolveResource(relative, files);
+    if (!file) {
+      missing.add(relative);
+      return url;
+    }
+    return urlFor(file);
+  });
+  manager.onStart = () => {
+    loading = true;
+  };
+  manager.onLoad = () => {
+    loading = false;
+    waiters.forEach((resolve) => resolve());
+    waiters = [];
+  };
+
+  return {
+    manager,
+    missing,
+    urlFor,
+    idle: () => !loading
+      ? Promise.resolve()
+      : new Promise<void>((resolve) => waiters.push(resolve)),
+    dispose: () => {
+      objectUrls.forEach((url) => URL.revokeObjectURL(url));
+      objectUrls.clear();
+      knownUrls.clear();
+    },
+  };
+}
+
+const readDirectoryEntries = (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+
+  // readEntries returns the listing in batches until it hands back an empty one
+  return new Promise((resolve, reject) => {
+    const readBatch = () => reader.readEntries((batch) => {
+      if (batch.length === 0) {
+        resolve(entries);
+      } else {
+        entries.push(...batch);
+        readBatch();
+      }
+    }, reject);
+    readBatch();
+  });
+};
+
+/**
+ * Walks dropped files and folders, returning every file with its path
+ * relative to the drop recorded for resolveResource.
+ */
+export async function readDroppedEntries(entries: FileSystemEntry[]): Promise<File[]> {
+  const files: File[] = [];
+
+  const visit = async (entry: FileSystemEntry) => {
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) => {
+        (entry as FileSystemFileEntry).file(resolve, reject);
+      });
+      setRelativePath(file, entry.fullPath.replace(/^\//, ''));
+      files.push(file);
+    } else if (entry.isDirectory) {
+      const children = await readDirectoryEntries(entry as FileSystemDirectoryEntry);
+      for (const child of children) await visit(child);
+    }
+  };
+
+  for (const entry of entries) await visit(entry);
+  return files;
+}
@@ -0,0 +1,343 @@
+import { getExtension } from "@/lib/model-resources";
+import type { DitherMode, PixelArtSettings } from "@/types";
+
+export type Rgb = [number, number, number];
+
+export const PALETTE_EXTENSIONS = ['.gpl', '.hex', '.png'];
+export const MAX_PALETTE_COLORS = 256;
+
+export const DITHER_MODES: DitherMode[] = ['none', 'ordered', 'floyd-steinberg'];
+
+export const DEFAULT_PIXEL_ART: PixelArtSettings = {
+  enabled: false,
+  scale: 4,
+  outline: false,
+  outlineColor: '#000000',
+  palette: 'none',
+  colors: 16,
+  customPalette: [],
+  dither: 'none',
+  lockPalette: true,
+};
+
+/**
+ * Carries the auto palette of the first sheet in a run to every later one
+ * (other clips, texture variants, batch items) while the palette is locked.
+ * Each run starts with a fresh lock.
+ */
+export interface PaletteLock {
+  colors: Rgb[] | null;
+}
+
+export const createPaletteLock = (): PaletteLock => ({ colors: null });
+
+export const hexToRgb = (hex: string): Rgb => {
+  const value = parseInt(hex.replace(/^#/, ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+export const rgbToHex = ([r, g, b]: Rgb): string =>
+  `#${[r, g, b].map((channel) => channel.toString(16).padStart(2, '0')).join('')}`;
+
+// Pixel art has no partial coverage: a pixel is part of the sprite or it is not
+const binarizeAlpha = (image: ImageData) => {
+  const { data } = image;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] >= 128) {
+      data[i + 3] = 255;
+    } else {
+      data[i] = data[i + 1] = data[i + 2] = data[i + 3] = 0;
+    }
+  }
+};
+
+// Every opaque pixel at most, evenly thinned out above `limit`
+const sampleOpaquePixels = (images: ImageData[], limit = 65536): Rgb[] => {
+  const total = images.reduce((sum, image) => sum + image.width * image.height, 0);
+  const step = Math.max(1, Math.floor(total / limit));
+  const pixels: Rgb[] = [];
+  let index = 0;
+
+  for (const { data } of images) {
+    for (let i = 0; i < data.length; i += 4, index++) {
+      if (index % step === 0 && data[i + 3] === 255) pixels.push([data[i], data[i + 1], data[i + 2]]);
+    }
+  }
+  return pixels;
+};
+
+/**
+ * Median cut: keeps splitting the box of colours with the widest channel at
+ * its median until there are `count` boxes, then takes each box's average.
+ */
+export function buildPalette(images: ImageData[], count: number): Rgb[] {
+  const pixels = sampleOpaquePixels(images);
+  if (pixels.length === 0) return [[0, 0, 0]];
+
+  const boxes: Rgb[][] = [pixels];
+  const getWidestChannel = (box: Rgb[]) => {
+    let widest = { channel: 0, range: -1 };
+    for (let channel = 0; channel < 3; channel++) {
+      let min = 255;
+      let max = 0;
+      for (const pixel of box) {
+        min = Math.min(min, pixel[channel]);
+        max = Math.max(max, pixel[channel]);
+      }
+      if (max - min > widest.range) widest = { channel, range: max - min };
+    }
+    return widest;
+  };
+
+  while (boxes.length < count) {
+    let target = -1;
+    let targetSplit = { channel: 0, range: 0 };
+    boxes.forEach((box, index) => {
+      if (box.length < 2) return;
+      const widest = getWidestChannel(box);
+      if (widest.range > targetSplit.range) {
+        target = index;
+        targetSplit = widest;
+      }
+    });
+    if (target === -1) break; // every box holds a single colour
+
+    const box = boxes[target].sort((a, b) => a[targetSplit.channel] - b[targetSplit.channel]);
+    const middle = Math.floor(box.length / 2);
+    boxes.splice(target, 1, box.slice(0, middle), box.slice(middle));
+  }
+
+  const colors = boxes.map((box) => {
+    const sum = box.reduce<Rgb>((acc, pixel) => [acc[0] + pixel[0], acc[1] + pixel[1], acc[2] + pixel[2]], [0, 0, 0]);
+    return sum.map((channel) => Math.round(channel / box.length)) as Rgb;
+  });
+  return Array.from(new Map(colors.map((color) => [rgbToHex(color), color])).values());
+}
+
+// Remembers the answer per colour; sprites repeat the same few colours a lot
+const createNearestColor = (palette: Rgb[]) => {
+  const cache = new Map<number, number>();
+  return (r: number, g: number, b: number): Rgb => {
+    const key = (r << 16) | (g << 8) | b;
+    let index = cache.get(key);
+    if (index === undefined) {
+      let best = Infinity;
+      index = 0;
+      palette.forEach(([pr, pg, pb], candidate) => {
+        const distance = (r - pr) ** 2 + (g - pg) ** 2 + (b - pb) ** 2;
+        if (distance < best) {
+          best = distance;
+          index = candidate;
+        }
+      });
+      cache.set(key, index);
+    }
+    return palette[index];
+  };
+};
+
+const BAYER_4X4 = [
+  [0, 8, 2, 10],
+  [12, 4, 14, 6],
+  [3, 11, 1, 9],
+  [15, 7, 13, 5],
+];
+
+const clampChannel = (value: number) => Math.max(0, Math.min(255, Math.round(value)));
+
+/**
+ * Replaces every opaque pixel with a palette colour. Ordered dithering nudges
+ * each pixel by a fixed 4×4 pattern first; Floyd–Steinberg spreads each
+ * pixel's error onto its opaque neighbours. Works in place.
+ */
+export function quantizeImage(image: ImageData, palette: Rgb[], dither: DitherMode): ImageData {
+  const { width, height, data } = image;
+  const nearest = createNearestColor(palette);
+  // Roughly the gap between neighbouring palette colours
+  const spread = 255 / Math.max(1, Math.cbrt(palette.length) - 1);
+  const error = dither === 'floyd-steinberg' ? new Float32Array(width * height * 3) : null;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pixel = y * width + x;
+      const offset = pixel * 4;
+      if (data[offset + 3] !== 255) continue;
+
+      let r = data[offset];
+      let g = data[offset + 1];
+      let b = data[offset + 2];
+      if (dither === 'ordered') {
+        const nudge = (BAYER_4X4[y % 4][x % 4] / 16 - 0.5) * spread;
+        r = clampChannel(r + nudge);
+        g = clampChannel(g + nudge);
+        b = clampChannel(b + nudge);
+      } else if (error) {
+        r = clampChannel(r + error[pixel * 3]);
+        g = clampChannel(g + error[pixel * 3 + 1]);
+        b = clampChannel(b + error[pixel * 3 + 2]);
+      }
+
+      const color = nearest(r, g, b);
+      data[offset] = color[0];
+      data[offset + 1] = color[1];
+      data[offset + 2] = color[2];
+
+      if (error) {
+        const spill = (dx: number, dy: number, weight: number) => {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || nx >= width || ny >= height) return;
+          const target = ny * width + nx;
+          if (data[target * 4 + 3] !== 255) return; // the background takes no error
+          error[target * 3] += (r - color[0]) * weight;
+          error[target * 3 + 1] += (g - color[1]) * weight;
+          error[target * 3 + 2] += (b - color[2]) * weight;
+        };
+        spill(1, 0, 7 / 16);
+        spill(-1, 1, 3 / 16);
+        spill(0, 1, 5 / 16);
+        spill(1, 1, 1 / 16);
+      }
+    }
+  }
+
+  return image;
+}
+
+// Draws a 1px line around the sprite on the empty pixels next to it. Works in place.
+export function addOutline(image: ImageData, color: Rgb): ImageData {
+  const { width, height, data } = image;
+  const alpha = new Uint8Array(width * height);
+  for (let i = 0; i < alpha.length; i++) alpha[i] = data[i * 4 + 3];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (alpha[y * width + x] !== 0) continue;
+      const touchesSprite =
+        (x > 0 && alpha[y * width + x - 1] !== 0) ||
+        (x < width - 1 && alpha[y * width + x + 1] !== 0) ||
+        (y > 0 && alpha[(y - 1) * width + x] !== 0) ||
+        (y < height - 1 && alpha[(y + 1) * width + x] !== 0);
+      if (!touchesSprite) continue;
+
+      const offset = (y * width + x) * 4;
+      data[offset] = color[0];
+      data[offset + 1] = color[1];
+      data[offset + 2] = color[2];
+      data[offset + 3] = 255;
+    }
+  }
+
+  return image;
+}
+
+const fillBackground = (image: ImageData, color: Rgb) => {
+  const { data } = image;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] !== 0) continue;
+    data[i] = color[0];
+    data[i + 1] = color[1];
+    data[i + 2] = color[2];
+    data[i + 3] = 255;
+  }
+};
+
+const resolvePalette = (images: ImageData[], settings: PixelArtSettings, lock?: PaletteLock): Rgb[] | null => {
+  if (settings.palette === 'custom') {
+    return settings.customPalette.length > 0 ? settings.customPalette.map(hexToRgb) : null;
+  }
+  if (settings.palette !== 'auto') return null;
+  if (settings.lockPalette && lock?.colors) return lock.colors;
+
+  const colors = buildPalette(images, settings.colors);
+  if (settings.lockPalette && lock) lock.colors = colors;
+  return colors;
+};
+
+/**
+ * Turns the low-resolution renders of one sheet into pixel art: hard alpha
+ * edges, the palette (shared by every frame of the sheet, or by the whole
+ * run when locked), then the outline. `background` fills the empty pixels
+ * last, so neither the palette nor the outline sees it. Works in place.
+ */
+export function processPixelArtFrames(
+  images: ImageData[],
+  settings: PixelArtSettings,
+  lock?: PaletteLock,
+  background?: string
+): ImageData[] {
+  images.forEach(binarizeAlpha);
+
+  const palette = resolvePalette(images, settings, lock);
+  if (palette) images.forEach((image) => quantizeImage(image, palette, settings.dither));
+  if (settings.outline) images.forEach((image) => addOutline(image, hexToRgb(settings.outlineColor)));
+  if (background) images.forEach((image) => fillBackground(image, hexToRgb(background)));
+
+  return images;
+}
+
+const readImageColors = async (file: File): Promise<string[]> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error(`${file.name} is not a readable image`));
+      img.src = url;
+    });
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) throw new Error('Canvas 2D context is not available');
+    context.drawImage(image, 0, 0);
+
+    const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+    const colors = new Set<string>();
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] < 128) continue;
+      colors.add(rgbToHex([data[i], data[i + 1], data[i + 2]]));
+      if (colors.size > MAX_PALETTE_COLORS) {
+        throw new Error(`${file.name} has more than ${MAX_PALETTE_COLORS} colours; use a swatch image with one pixel per colour`);
+      }
+    }
+    return Array.from(colors);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Reads a palette from a GIMP .gpl file, a .hex list (one RRGGBB per line, as
+ * Lospec exports it) or a swatch image, in file order. Returns #rrggbb
+ * colours without duplicates.
+ */
+export async function parsePaletteFile(file: File): Promise<string[]> {
+  const extension = getExtension(file.name);
+  let colors: string[];
+
+  if (extension === '.gpl') {
+    colors = (await file.text())
+      .split(/\r?\n/)
+      .map((line) => /^\s*(\d{1,3})\s+(\d{1,3})\s+(\d{1,3})(?:\s|$)/.exec(line))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map((match) => rgbToHex([1, 2, 3].map((group) => Math.min(255, Number(match[group]))) as Rgb));
+  } else if (extension === '.hex') {
+    colors = (await file.text())
+      .split(/\r?\n/)
+      .map((line) => /^\s*#?([0-9a-f]{6})\s*$/i.exec(line))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map((match) => `#${match[1].toLowerCase()}`);
+  } else if (PALETTE_EXTENSIONS.includes(extension)) {
+    colors = await readImageColors(file);
+  } else {
+    throw new Error(`${file.name} is not a palette. Supported formats: ${PALETTE_EXTENSIONS.join(', ')}`);
+  }
+
+  const unique = Array.from(new Set(colors));
+  if (unique.length === 0) throw new Error(`No colours found in ${file.name}`);
+  if (unique.length > MAX_PALETTE_COLORS) {
+    throw new Error(`${file.name} has ${unique.length} colours; palettes can hold up to ${MAX_PALETTE_COLORS}`);
+  }
+  return unique;
+}
@@ -0,0 +1,137 @@
+import { DEFAULT_GENERATION_SETTINGS, parseGenerationSettings } from "@/lib/generation-settings";
+import { DEFAULT_LIGHTING } from "@/lib/lighting";
+import type { GenerationSettings } from "@/types";
+
+export interface Preset {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  settings: GenerationSettings;
+}
+
+export const PRESET_FILE_VERSION = 1;
+
+const STORAGE_KEY = '3dtostrip:presets';
+
+// Full-size frames in a row pass the canvas limit quickly, so the larger presets use a grid
+export const BUILT_IN_PRESETS: Preset[] = [
+  {
+    id: 'builtin:studio',
+    name: 'Studio',
+    builtIn: true,
+    settings: {
+      ...DEFAULT_GENERATION_SETTINGS,
+      ratio: '4:3',
+      frameCount: 24,
+      layout: { mode: 'grid', columns: 4, padding: 0 },
+      backgroundColor: '#f5f5f5',
+      lighting: { ambientIntensity: 0.4, lights: [{ ...DEFAULT_LIGHTING.lights[0], intensity: 1.2 }] },
+    },
+  },
+  {
+    id: 'builtin:game-sprite',
+    name: 'Game sprite',
+    builtIn: true,
+    settings: {
+      ...DEFAULT_GENERATION_SETTINGS,
+      ratio: '1:1',
+      frameCount: 16,
+      layout: { mode: 'grid', padding: 2 },
+      backgroundColor: '#ff00ff',
+      camera: { ...DEFAULT_GENERATION_SETTINGS.camera, projection: 'orthographic', elevation: 30 },
+      lighting: { ambientIntensity: 0.8, lights: [{ ...DEFAULT_LIGHTING.lights[0], intensity: 1.5 }] },
+    },
+  },
+  {
+    id: 'builtin:product-shot',
+    name: 'Product shot',
+    builtIn: true,
+    settings: {
+      ...DEFAULT_GENERATION_SETTINGS,
+      ratio: '16:9',
+      frameCount: 24,
+      layout: { mode: 'grid', columns: 4, padding: 0 },
+      backgroundColor: '#ffffff',
+      camera: { ...DEFAULT_GENERATION_SETTINGS.camera, elevation: 10, fov: 30, fitPadding: 0.2 },
+      lighting: { ambientIntensity: 0.8, lights: [{ ...DEFAULT_LIGHTING.lights[0], intensity: 0.6 }] },
+    },
+  },
+];
+
+export const createPresetId = () => `preset_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+export function loadUserPresets(): Preset[] {
+  if (typeof localStorage === 'undefined') return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored)
+      ? stored
+        .filter((preset) => typeof preset?.id === 'string' && typeof preset?.name === 'string')
+        .map((preset) => ({
+          id: preset.id,
+          name: preset.name,
+          settings: parseGenerationSettings(preset.settings).settings,
+        }))
+      : [];
+  } catch (err) {
+    console.warn('Failed to read saved presets:', err);
+    return [];
+  }
+}
+
+export function storeUserPresets(presets: Preset[]) {
+  localStorage.setItem(
+    STORAGE_KEY,
+    JSON.stringify(presets.filter((preset) => !preset.builtIn))
+  );
+}
+
+export function serializePresets(presets: Preset[]): string {
+  return JSON.stringify(
+    {
+      version: PRESET_FILE_VERSION,
+      presets: presets.map(({ name, settings }) => ({ name, settings })),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Reads a preset file. Accepts the exported `{ version, presets: [...] }`
+ * shape as well as a bare array or a single `{ name, settings }` object.
+ */
+export function parsePresetFile(text: string): { presets: Preset[]; issues: string[] } {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('Preset file is not valid JSON');
+  }
+
+  const list: unknown[] = Array.isArray(json)
+    ? json
+    : typeof json === 'object' && json !== null && Array.isArray((json as { presets?: unknown }).presets)
+      ? (json as { presets: unknown[] }).presets
+      : [json];
+
+  const issues: string[] = [];
+  const presets = list.flatMap((item, index): Preset[] => {
+    const record = typeof item === 'object' && item !== null ? item as Record<string, unknown> : null;
+    const name = typeof record?.name === 'string' && record.name.trim() ? record.name.trim() : null;
+    if (!record || !name) {
+      issues.push(`Preset ${index + 1} has no name and was skipped`);
+      return [];
+    }
+
+    const parsed = parseGenerationSettings(record.settings);
+    issues.push(...parsed.issues.map((issue) => `${name}: ${issue}`));
+    return [{ id: createPresetId(), name, settings: parsed.settings }];
+  });
+
+  if (presets.length === 0) {
+    throw new Error('Preset file does not contain any presets');
+  }
+
+  return { presets, issues };
+}
@@ -0,0 +1,14 @@
+import type { CSSProperties } from "react";
+import type { SpriteStripData } from "@/types";
+
+const CHECKERBOARD: CSSProperties = {
+  backgroundColor: '#ffffff',
+  backgroundImage: 'repeating-conic-gradient(#e5e7eb 0% 25%, transparent 0% 50%)',
+  backgroundSize: '16px 16px',
+};
+
+// Transparent sheets sit on a checkerboard, everything else on its own fill
+export const getPreviewBackground = (
+  metadata: Pick<SpriteStripData['metadata'], 'backgroundColor' | 'backgroundMode'>
+): CSSProperties =>
+  metadata.backgroundMode === 'transparent' ? CHECKERBOARD : { backgroundColor: metadata.backgroundColor };
@@ -0,0 +1,163 @@
+import { parseGenerationSettings, type ParsedSettings } from "@/lib/generation-settings";
+import { decodeLights, encodeLights } from "@/lib/lighting";
+import type { GenerationSettings } from "@/types";
+
+// Query parameter name -> path inside GenerationSettings
+const URL_PARAMS = {
+  ratio: 'ratio',
+  fw: 'frameSize.width',
+  fh: 'frameSize.height',
+  source: 'sourceMode',
+  frames: 'frameCount',
+  start: 'rotation.startAngle',
+  end: 'rotation.endAngle',
+  axis: 'rotation.axis',
+  dir: 'rotation.direction',
+  clips: 'animation.clips',
+  sample: 'animation.sampling',
+  fps: 'animation.fps',
+  clipframes: 'animation.frameCount',
+  facings: 'directional.directions',
+  facingclip: 'directional.clip',
+  layout: 'layout.mode',
+  cols: 'layout.columns',
+  rows: 'layout.rows',
+  pad: 'layout.padding',
+  bg: 'backgroundColor',
+  bgmode: 'backgroundMode',
+  fringe: 'fringeFix',
+  proj: 'camera.projection',
+  elev: 'camera.elevation',
+  azim: 'camera.azimuth',
+  fov: 'camera.fov',
+  fit: 'camera.fitPadding',
+  dist: 'camera.distance',
+  zoom: 'camera.orthoZoom',
+  ambient: 'lighting.ambientIntensity',
+  lights: 'lighting.lights',
+  env: 'environment.map',
+  envint: 'environment.intensity',
+  envrot: 'environment.rotation',
+  envbg: 'environment.showBackground',
+  mats: 'materialTextures',
+  px: 'pixelArt.enabled',
+  pxscale: 'pixelArt.scale',
+  pxline: 'pixelArt.outline',
+  pxlinecol: 'pixelArt.outlineColor',
+  pxpal: 'pixelArt.palette',
+  pxcolors: 'pixelArt.colors',
+  pxswatch: 'pixelArt.customPalette',
+  pxdither: 'pixelArt.dither',
+  pxlock: 'pixelArt.lockPalette',
+  maps: 'companionMaps',
+  trim: 'trim.enabled',
+  trimpad: 'trim.padding',
+  pivot: 'trim.pivot',
+  pivotx: 'trim.pivotX',
+  pivoty: 'trim.pivotY',
+  light: 'lighting.directionalIntensity', // read only, from links made before the rig editor
+} as const;
+
+type UrlParam = keyof typeof URL_PARAMS;
+
+// Colours are written without "#" so the link stays readable
+const hexCodec = {
+  write: (value: unknown) => String(value).replace(/^#/, ''),
+  read: (text: string) => (/^[0-9a-f]{6}$/i.test(text) ? `#${text}` : text),
+};
+
+// Parameters whose value is not simply the setting as text
+const PARAM_CODECS: Partial<Record<UrlParam, { write: (value: unknown) => string; read: (text: string) => unknown }>> = {
+  bg: hexCodec,
+  pxlinecol: hexCodec,
+  pxswatch: {
+    write: (value) => (value as string[]).map(hexCodec.write).join(','),
+    read: (text) => text.split(',').filter(Boolean).map(hexCodec.read),
+  },
+  lights: {
+    write: (value) => encodeLights(value as GenerationSettings['lighting']['lights']),
+    read: decodeLights,
+  },
+  // Material and texture names can hold any character, so the mapping travels as JSON
+  mats: {
+    write: (value) => JSON.stringify(value),
+    read: (text) => {
+      try {
+        return JSON.parse(text);
+      } catch {
+        return text;
+      }
+    },
+  },
+};
+
+const isUrlParam = (key: string): key is UrlParam => Object.hasOwn(URL_PARAMS, key);
+
+const getPath = (source: unknown, path: string): unknown =>
+  path.split('.').reduce<unknown>(
+    (value, key) => (typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined),
+    source
+  );
+
+const setPath = (target: Record<string, unknown>, path: string, value: unknown) => {
+  const keys = path.split('.');
+  const last = keys.pop() as string;
+  const parent = keys.reduce((node, key) => {
+    if (typeof node[key] !== 'object' || node[key] === null) node[key] = {};
+    return node[key] as Record<string, unknown>;
+  }, target);
+  parent[last] = value;
+};
+
+export function settingsToSearchParams(settings: GenerationSettings): URLSearchParams {
+  const params = new URLSearchParams();
+  (Object.keys(URL_PARAMS) as UrlParam[]).forEach((param) => {
+    const value = getPath(settings, URL_PARAMS[param]);
+    const codec = PARAM_CODECS[param];
+    // e.g. automatic grid columns, no animation clips picked, no material textures or no swatch; an empty rig still has to travel
+    const isEmptyMapping = typeof value === 'object' && value !== null && !Array.isArray(value) && Object.keys(value).length === 0;
+    const isEmptyList = Array.isArray(value) && value.length === 0 && param !== 'lights';
+    if (value === undefined || isEmptyMapping || isEmptyList) return;
+    params.set(param, codec ? codec.write(value) : String(value));
+  });
+  return params;
+}
+
+/**
+ * Restores settings from a query string. Returns null when the URL carries
+ * no parameters at all; otherwise every value is validated and clamped by
+ * parseGenerationSettings and unknown parameters are reported as issues.
+ */
+export function settingsFromSearchParams(
+  params: URLSearchParams,
+  fallback?: GenerationSettings
+): ParsedSettings | null {
+  if (Array.from(params.keys()).length === 0) return null;
+
+  const raw: Record<string, unknown> = {};
+  const unknown: string[] = [];
+  params.forEach((value, key) => {
+    if (!isUrlParam(key)) {
+      unknown.push(key);
+      return;
+    }
+    const codec = PARAM_CODECS[key];
+    setPath(raw, URL_PARAMS[key], codec ? codec.read(value) : value);
+  });
+
+  const parsed = parseGenerationSettings(raw, fallback);
+  return {
+    settings: parsed.settings,
+    issues: [
+      ...unknown.map((key) => `Unknown link parameter "${key}" was ignored`),
+      ...parsed.issues,
+    ],
+  };
+}
+
+export function buildSettingsUrl(baseUrl: string, settings: GenerationSettings): string {
+  const url = new URL(baseUrl);
+  url.search = settingsToSearchParams(settings).toString();
+  url.hash = '';
+  return url.toString();
+}
@@ -0,0 +1,161 @@
+import type { SheetGeometry, SheetLayout, SpriteStripData } from "@/types";
+
+export const DEFAULT_SHEET_LAYOUT: SheetLayout = {
+  mode: 'horizontal',
+  padding: 0,
+};
+
+export interface FrameRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const toPositiveInt = (value?: number) =>
+  value !== undefined && Number.isFinite(value) && value >= 1 ? Math.round(value) : undefined;
+
+/**
+ * Works out the grid that holds `frameCount` frames for the requested layout.
+ * Grids default to the most square arrangement; when only one of rows or
+ * columns is given the other grows to fit every frame.
+ */
+export function resolveSheetGeometry(
+  frameCount: number,
+  frameSize: { width: number; height: number },
+  layout: SheetLayout = DEFAULT_SHEET_LAYOUT
+): SheetGeometry {
+  const count = Math.max(1, frameCount);
+  const padding = Math.max(0, Math.round(layout.padding || 0));
+  let columns: number;
+  let rows: number;
+
+  switch (layout.mode) {
+    case 'vertical':
+      columns = 1;
+      rows = count;
+      break;
+    case 'grid': {
+      const explicitColumns = toPositiveInt(layout.columns);
+      const explicitRows = toPositiveInt(layout.rows);
+      if (explicitColumns) {
+        columns = Math.min(explicitColumns, count);
+        rows = Math.max(explicitRows ?? 0, Math.ceil(count / columns));
+      } else if (explicitRows) {
+        rows = Math.min(explicitRows, count);
+        columns = Math.ceil(count / rows);
+      } else {
+        columns = Math.ceil(Math.sqrt(count));
+        rows = Math.ceil(count / columns);
+      }
+      break;
+    }
+    case 'horizontal':
+    default:
+      columns = count;
+      rows = 1;
+      break;
+  }
+
+  return {
+    mode: layout.mode,
+    columns,
+    rows,
+    padding,
+    frameWidth: frameSize.width,
+    frameHeight: frameSize.height,
+    sheetWidth: columns * frameSize.width + (columns + 1) * padding,
+    sheetHeight: rows * frameSize.height + (rows + 1) * padding,
+  };
+}
+
+// Frames are packed row by row, left to right
+export function getFrameRect(geometry: SheetGeometry, index: number): FrameRect {
+  const column = index % geometry.columns;
+  const row = Math.floor(index / geometry.columns);
+
+  return {
+    x: geometry.padding + column * (geometry.frameWidth + geometry.padding),
+    y: geometry.padding + row * (geometry.frameHeight + geometry.padding),
+    width: geometry.frameWidth,
+    height: geometry.frameHeight,
+  };
+}
+
+export function loadSheetImage(sheetUrl: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load sprite sheet'));
+    img.src = sheetUrl;
+  });
+}
+
+/**
+ * Cuts a packed sheet back into one canvas per frame, in playback order.
+ * Trimmed frames are put back where they sat in the untrimmed frame, so
+ * every canvas has the same size and the animation does not jitter.
+ */
+export async function extractFrames(
+  sheetUrl: string,
+  geometry: SheetGeometry,
+  frameCount: number,
+  trim?: SpriteStripData['metadata']['trim']
+): Promise<HTMLCanvasElement[]> {
+  const sheet = await loadSheetImage(sheetUrl);
+
+  return Array.from({ length: frameCount }, (_, index) => {
+    const rect = getFrameRect(geometry, index);
+    const trimmed = trim?.frames[index];
+    const source = trimmed ? { ...rect, width: trimmed.width, height: trimmed.height } : rect;
+    const canvas = document.createElement('canvas');
+    canvas.width = trim ? trim.sourceWidth : rect.width;
+    canvas.height = trim ? trim.sourceHeight : rect.height;
+    canvas.getContext('2d')?.drawImage(
+      sheet,
+      source.x,
+      source.y,
+      source.width,
+      source.height,
+      trimmed?.x ?? 0,
+      trimmed?.y ?? 0,
+      source.width,
+      source.height
+    );
+    return canvas;
+  });
+}
+
+// Past either limit Chrome and Firefox hand back a blank canvas instead of failing
+const MAX_CANVAS_SIDE = 32767;
+const MAX_CANVAS_AREA = 268435456;
+
+/**
+ * Explains why the browser cannot draw a sheet this large, or returns null
+ * when it can. Checked before drawing, since an oversized canvas encodes to
+ * an empty image rather than throwing.
+ */
+export function getCanvasSizeError(width: number, height: number): string | null {
+  if (Math.max(width, height) <= MAX_CANVAS_SIDE && width * height <= MAX_CANVAS_AREA) return null;
+  return `The sheet would be ${width}×${height}px, larger than the ${MAX_CANVAS_SIDE}px canvas browsers can draw. Use fewer or smaller frames, or a grid layout.`;
+}
+
+// Largest texture side that loads on each class of hardware, smallest first
+const TEXTURE_SIZE_LIMITS = [
+  { size: 4096, where: 'many phones and older GPUs' },
+  { size: 8192, where: 'most WebGL browsers and integrated GPUs' },
+  { size: 16384, where: 'nearly all desktop GPUs' },
+];
+
+/**
+ * Describes the common maximum texture sizes a sheet is too large for, or
+ * returns null when it loads everywhere.
+ */
+export function getTextureSizeWarning(width: number, height: number): string | null {
+  const side = Math.max(width, height);
+  const exceeded = TEXTURE_SIZE_LIMITS.filter((limit) => side > limit.size);
+  if (exceeded.length === 0) return null;
+
+  const largest = exceeded[exceeded.length - 1];
+  return `The sheet is ${width}×${height}px, past the ${largest.size}px texture limit of ${largest.where}. Use fewer or smaller frames, or a grid layout.`;
+}
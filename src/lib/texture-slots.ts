@@ -0,0 +1,91 @@
+import type { MaterialTextureMap, TextureSet, TextureSlot } from "@/types";
+
+export const TEXTURE_SLOTS: TextureSlot[] = ['baseColor', 'normal', 'orm', 'roughness', 'metalness', 'ao', 'emissive'];
+
+export const TEXTURE_SLOT_LABELS: Record<TextureSlot, string> = {
+  baseColor: 'Base colour',
+  normal: 'Normal',
+  orm: 'AO / Roughness / Metalness (ORM)',
+  roughness: 'Roughness',
+  metalness: 'Metalness',
+  ao: 'Ambient occlusion',
+  emissive: 'Emissive',
+};
+
+// Short tags for the thumbnails
+export const TEXTURE_SLOT_BADGES: Record<TextureSlot, string> = {
+  baseColor: 'BC',
+  normal: 'N',
+  orm: 'ORM',
+  roughness: 'R',
+  metalness: 'M',
+  ao: 'AO',
+  emissive: 'E',
+};
+
+// Filename suffixes used by common texturing tools and asset stores
+const SLOT_SUFFIXES: Record<TextureSlot, string[]> = {
+  baseColor: ['basecolor', 'base_color', 'albedo', 'diffuse', 'diff', 'color', 'colour', 'col', 'bc'],
+  normal: ['normal', 'normalgl', 'normal_gl', 'normal_opengl', 'nrm', 'nor', 'norm', 'n'],
+  orm: ['orm', 'arm', 'occlusionroughnessmetallic', 'occlusion_roughness_metallic'],
+  roughness: ['roughness', 'rough', 'rgh', 'r'],
+  metalness: ['metalness', 'metallic', 'metal', 'met', 'm'],
+  ao: ['ambientocclusion', 'ambient_occlusion', 'occlusion', 'occ', 'ao'],
+  emissive: ['emissive', 'emission', 'emit', 'glow', 'e'],
+};
+
+// Longest first, so "_base_color" is not read as "_color"
+const SUFFIX_LOOKUP = TEXTURE_SLOTS
+  .flatMap((slot) => SLOT_SUFFIXES[slot].map((suffix) => ({ slot, suffix })))
+  .sort((a, b) => b.suffix.length - a.suffix.length);
+
+/**
+ * Guesses the slot of a texture from the end of its name, such as
+ * "knight_BaseColor.png", "knight_N.png" or "knight-ORM.jpg". Returns
+ * undefined when the name carries no known suffix.
+ */
+export const detectTextureSlot = (fileName: string): TextureSlot | undefined => {
+  const stem = fileName.replace(/\.[^/.]+$/, '').toLowerCase();
+  return SUFFIX_LOOKUP.find(({ suffix }) => {
+    const start = stem.length - suffix.length;
+    return start > 0 && stem.endsWith(suffix) && /[_\-. ]/.test(stem[start - 1]);
+  })?.slot;
+};
+
+export const getTextureSlots = (textures: TextureSet, file: File): TextureSlot[] =>
+  TEXTURE_SLOTS.filter((slot) => textures[slot] === file);
+
+export const getTextureFiles = (textures: TextureSet): File[] =>
+  Array.from(new Set(TEXTURE_SLOTS.map((slot) => textures[slot]).filter((file): file is File => !!file)));
+
+export const hasTextures = (textures?: TextureSet) => !!textures && getTextureFiles(textures).length > 0;
+
+/**
+ * The uploads that can stand in as the base colour when rendering every skin:
+ * everything except the files filling another map slot.
+ */
+export const getVariantTextures = (uploads: File[], textures: TextureSet): File[] =>
+  uploads.filter((file) => getTextureSlots(textures, file).every((slot) => slot === 'baseColor'));
+
+// Carries a texture's name from the selector thumbnails to the material list
+export const TEXTURE_DRAG_TYPE = 'application/x-sprite-texture';
+
+export const getMaterialTextureNames = (mapping: MaterialTextureMap): string[] =>
+  Array.from(new Set(Object.values(mapping).filter((name): name is string => !!name)));
+
+/**
+ * Swaps the texture names of a material mapping for the uploaded files.
+ * Entries whose texture is not among `files` are left out, so those
+ * materials fall back to the texture slots.
+ */
+export const resolveMaterialTextures = (
+  mapping: MaterialTextureMap,
+  files: File[]
+): Record<string, File | null> =>
+  Object.fromEntries(
+    Object.entries(mapping).flatMap(([material, textureName]): [string, File | null][] => {
+      if (textureName === null) return [[material, null]];
+      const file = files.find((candidate) => candidate.name === textureName);
+      return file ? [[material, file]] : [];
+    })
+  );
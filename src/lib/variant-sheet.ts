@@ -0,0 +1,85 @@
+import { getCanvasSizeError, loadSheetImage } from "@/lib/sprite-sheet";
+import { createZip, textEntry, uniqueEntryName, urlEntry, type ZipEntry } from "@/lib/zip";
+import type { SheetGeometry, SpriteStripData } from "@/types";
+
+export interface VariantBand {
+  texture: string;
+  title: string;
+  y: number; // top of the variant's sheet in the combined image
+  layout: SheetGeometry; // frame positions within the band
+  trim?: SpriteStripData['metadata']['trim'];
+}
+
+export interface VariantSheet {
+  blob: Blob;
+  width: number;
+  height: number;
+  bands: VariantBand[];
+}
+
+const getVariantName = (strip: SpriteStripData) => strip.metadata.variant ?? strip.title;
+
+/**
+ * Stacks the sheets of several texture variants into one image, one band per
+ * variant from top to bottom. A horizontal strip layout makes each band a
+ * single row of frames.
+ */
+export async function createVariantSheet(strips: SpriteStripData[]): Promise<VariantSheet> {
+  const images = await Promise.all(strips.map((strip) => loadSheetImage(strip.spriteStripUrl)));
+  const width = Math.max(...strips.map((strip) => strip.metadata.layout.sheetWidth));
+  const bands: VariantBand[] = [];
+  let height = 0;
+
+  for (const strip of strips) {
+    bands.push({
+      texture: getVariantName(strip),
+      title: strip.title,
+      y: height,
+      layout: strip.metadata.layout,
+      ...(strip.metadata.trim && { trim: strip.metadata.trim }),
+    });
+    height += strip.metadata.layout.sheetHeight;
+  }
+
+  const sizeError = getCanvasSizeError(width, height);
+  if (sizeError) throw new Error(sizeError);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Failed to create the combined sheet');
+  images.forEach((image, index) => context.drawImage(image, 0, bands[index].y));
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('Failed to encode the combined sheet');
+  return { blob, width, height, bands };
+}
+
+// Row metadata for a combined sheet, so engines can find each variant
+export const serializeVariantSheet = (imageFileName: string, sheet: VariantSheet) =>
+  JSON.stringify({
+    image: imageFileName,
+    width: sheet.width,
+    height: sheet.height,
+    variants: sheet.bands,
+  }, null, 2);
+
+/**
+ * Packs each variant's sheet as its own PNG, with a manifest naming the
+ * texture behind every file.
+ */
+export async function createVariantZip(strips: SpriteStripData[]): Promise<Blob> {
+  const usedNames = new Set<string>();
+  const entries: ZipEntry[] = [];
+  const manifest: { file: string; texture: string; metadata: SpriteStripData['metadata'] }[] = [];
+
+  for (const strip of strips) {
+    const name = uniqueEntryName(`${strip.title || 'sprite'}.png`, usedNames);
+    entries.push(await urlEntry(name, strip.spriteStripUrl));
+    manifest.push({ file: name, texture: getVariantName(strip), metadata: strip.metadata });
+  }
+
+  entries.push(textEntry(uniqueEntryName('manifest.json', usedNames), JSON.stringify(manifest, null, 2)));
+  return createZip(entries);
+}
@@ -0,0 +1,95 @@
+export type WebmCodec = 'vp9' | 'vp8';
+
+export interface VideoExportOptions {
+  fps: number;
+  loops: number; // number of times the full turn is played, at least 1
+  height: number; // output height in pixels; width follows the frame aspect ratio
+  codec?: WebmCodec;
+  bitsPerSecond?: number;
+  background?: string; // fill behind transparent frames, which WebM cannot keep
+  onProgress?: (progress: number) => void;
+}
+
+const WEBM_MIME_TYPES: Record<WebmCodec, string> = {
+  vp9: 'video/webm;codecs=vp9',
+  vp8: 'video/webm;codecs=vp8',
+};
+
+export function getSupportedWebmCodecs(): WebmCodec[] {
+  if (typeof MediaRecorder === 'undefined') return [];
+  return (Object.keys(WEBM_MIME_TYPES) as WebmCodec[]).filter((codec) =>
+    MediaRecorder.isTypeSupported(WEBM_MIME_TYPES[codec])
+  );
+}
+
+// Video encoders expect even dimensions
+const toEven = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+export function getVideoSize(frameWidth: number, frameHeight: number, height: number) {
+  return {
+    width: toEven((height * frameWidth) / frameHeight),
+    height: toEven(height),
+  };
+}
+
+/**
+ * Plays the frames onto a canvas at the requested rate and records it with
+ * MediaRecorder. Recording runs in real time, so a 4 second clip takes about
+ * 4 seconds to encode.
+ */
+export async function encodeWebm(frames: HTMLCanvasElement[], options: VideoExportOptions): Promise<Blob> {
+  const codec = options.codec ?? getSupportedWebmCodecs()[0];
+  if (!codec || frames.length === 0) {
+    throw new Error('This browser cannot record WebM video');
+  }
+
+  const { width, height } = getVideoSize(frames[0].width, frames[0].height, options.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  ctx.imageSmoothingQuality = 'high';
+
+  const stream = canvas.captureStream(0);
+  const [track] = stream.getVideoTracks() as CanvasCaptureMediaStreamTrack[];
+  const recorder = new MediaRecorder(stream, {
+    mimeType: WEBM_MIME_TYPES[codec],
+    videoBitsPerSecond: options.bitsPerSecond ?? 8_000_000,
+  });
+
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>((resolve, reject) => {
+    recorder.onstop = () => resolve();
+    recorder.onerror = () => reject(new Error('Video recording failed'));
+  });
+
+  const frameDuration = 1000 / Math.max(1, options.fps);
+  const total = frames.length * Math.max(1, options.loops);
+  const start = performance.now();
+
+  recorder.start();
+  try {
+    for (let i = 0; i < total; i++) {
+      // Repaint the background so transparent frames do not pile up
+      ctx.fillStyle = options.background ?? '#000000';
+      ctx.fillRect(0, 0, width, height);
+      ctx.drawImage(frames[i % frames.length], 0, 0, width, height);
+      track.requestFrame();
+      options.onProgress?.((i + 1) / total);
+
+      // Schedule against the start time so timer drift does not accumulate
+      const wait = start + (i + 1) * frameDuration - performance.now();
+      await new Promise((resolve) => setTimeout(resolve, Math.max(0, wait)));
+    }
+  } finally {
+    recorder.stop();
+    track.stop();
+  }
+
+  await stopped;
+  return new Blob(chunks, { type: 'video/webm' });
+}
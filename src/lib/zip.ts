@@ -0,0 +1,105 @@
+import { concatBytes, crc32, toArrayBuffer, uint16LE, uint32LE } from "@/lib/binary";
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const encoder = new TextEncoder();
+
+// Fixed DOS timestamp (1980-01-01 00:00); dates are not meaningful for generated files
+const DOS_TIME = 0;
+const DOS_DATE = (1 << 5) | 1;
+const UTF8_FLAG = 0x0800;
+
+/**
+ * Writes an uncompressed (stored) ZIP archive. Sprite sheets are already
+ * compressed PNGs, so deflating them again would gain next to nothing.
+ */
+export function createZip(entries: ZipEntry[]): Blob {
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+
+    const localHeader = concatBytes([
+      uint32LE(0x04034b50),
+      uint16LE(20), // version needed
+      uint16LE(UTF8_FLAG),
+      uint16LE(0), // stored
+      uint16LE(DOS_TIME),
+      uint16LE(DOS_DATE),
+      uint32LE(crc),
+      uint32LE(size),
+      uint32LE(size),
+      uint16LE(name.length),
+      uint16LE(0),
+      name,
+    ]);
+
+    centralParts.push(concatBytes([
+      uint32LE(0x02014b50),
+      uint16LE(20), // version made by
+      uint16LE(20), // version needed
+      uint16LE(UTF8_FLAG),
+      uint16LE(0),
+      uint16LE(DOS_TIME),
+      uint16LE(DOS_DATE),
+      uint32LE(crc),
+      uint32LE(size),
+      uint32LE(size),
+      uint16LE(name.length),
+      uint16LE(0), // extra length
+      uint16LE(0), // comment length
+      uint16LE(0), // disk number
+      uint16LE(0), // internal attributes
+      uint32LE(0), // external attributes
+      uint32LE(offset),
+      name,
+    ]));
+
+    localParts.push(localHeader, entry.data);
+    offset += localHeader.length + size;
+  }
+
+  const centralDirectory = concatBytes(centralParts);
+  const end = concatBytes([
+    uint32LE(0x06054b50),
+    uint16LE(0),
+    uint16LE(0),
+    uint16LE(entries.length),
+    uint16LE(entries.length),
+    uint32LE(centralDirectory.length),
+    uint32LE(offset),
+    uint16LE(0),
+  ]);
+
+  return new Blob(
+    [...localParts, centralDirectory, end].map(toArrayBuffer),
+    { type: 'application/zip' }
+  );
+}
+
+export const textEntry = (name: string, text: string): ZipEntry => ({ name, data: encoder.encode(text) });
+
+export async function urlEntry(name: string, url: string): Promise<ZipEntry> {
+  const response = await fetch(url);
+  return { name, data: new Uint8Array(await response.arrayBuffer()) };
+}
+
+// Appends " (2)", " (3)", ... so entries with the same title do not overwrite each other
+export function uniqueEntryName(name: string, used: Set<string>): string {
+  const dot = name.lastIndexOf('.');
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const extension = dot > 0 ? name.slice(dot) : '';
+  let candidate = name;
+  for (let i = 2; used.has(candidate); i++) {
+    candidate = `${base} (${i})${extension}`;
+  }
+  used.add(candidate);
+  return candidate;
+}
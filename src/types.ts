@@ -1,11 +1,139 @@
+export type RotationAxis = 'x' | 'y' | 'z';
+
+export type RotationDirection = 'clockwise' | 'counterclockwise';
+
+export type BackgroundMode = 'color' | 'transparent';
+
+export type CameraProjection = 'perspective' | 'orthographic';
+
+export type SourceMode = 'turntable' | 'animation' | 'directional';
+
+export type AnimationSampling = 'fps' | 'frames';
+
+export interface AnimationSettings {
+  clips: string[]; // names of the clips to render, each into its own strip
+  sampling: AnimationSampling;
+  fps: number; // sampling: 'fps', frames per second of clip time
+  frameCount: number; // sampling: 'frames', spread evenly over the clip
+}
+
+export interface CameraSettings {
+  projection: CameraProjection;
+  elevation: number; // degrees above the horizon
+  azimuth: number; // degrees around the vertical axis, 0 looks at the model's front
+  fov: number; // vertical field of view in degrees, perspective only
+  fitPadding: number; // auto-fit margin as a fraction of the model's bounding radius
+  distance?: number; // fixed distance from the model centre, omit to auto-fit
+  orthoZoom: number; // orthographic only, above 1 zooms in
+}
+
+export type DirectionCount = 4 | 8 | 16;
+
+export interface DirectionalSettings {
+  directions: DirectionCount;
+  clip?: string; // animation clip played in every direction, omit for the model's rest pose
+}
+
+// One row of a directional sheet
+export interface SheetDirection {
+  name: string; // compass point such as "N" or "NE"
+  angle: number; // compass bearing in degrees, clockwise from north (the top of the screen)
+  row: number;
+}
+
+export type LightType = 'directional' | 'point' | 'spot' | 'hemisphere';
+
+export interface LightSettings {
+  type: LightType;
+  color: string; // #rrggbb; the sky colour of a hemisphere light
+  intensity: number;
+  // Relative to the view, with the model at the origin: +x right, +y up, +z towards the camera.
+  // Directional and spot lights aim at the model; a hemisphere light's sky is this way up.
+  position: { x: number; y: number; z: number };
+  castShadow: boolean; // not available on hemisphere lights
+  groundColor: string; // hemisphere only
+  angle: number; // spot only, cone half-angle in degrees
+  penumbra: number; // spot only, 0 for a hard cone edge up to 1 for a fully soft one
+}
+
+// Material maps an uploaded image can drive. 'orm' is the packed glTF layout:
+// ambient occlusion in red, roughness in green and metalness in blue.
+export type TextureSlot = 'baseColor' | 'normal' | 'orm' | 'roughness' | 'metalness' | 'ao' | 'emissive';
+
+export type TextureSet = Partial<Record<TextureSlot, File>>;
+
+// Material name -> name of the uploaded texture used as its colour map, or null to keep the model's own.
+// Materials left out follow the texture slots, or keep their own when no slot is filled.
+export type MaterialTextureMap = Record<string, string | null>;
+
+// A bundled studio map, an uploaded one, or none for lights only
+export type EnvironmentMap = 'none' | 'studio-soft' | 'studio-contrast' | 'custom';
+
+export interface EnvironmentSettings {
+  map: EnvironmentMap; // 'custom' uses the uploaded .hdr, .exr or equirectangular image
+  intensity: number;
+  rotation: number; // degrees around the vertical axis; follows the camera like the light rig
+  showBackground: boolean; // colour background only; transparent sheets stay transparent
+}
+
+export type DitherMode = 'none' | 'ordered' | 'floyd-steinberg';
+
+// Full colour, a palette picked from each sheet, or the uploaded swatch
+export type PaletteSource = 'none' | 'auto' | 'custom';
+
+export interface PixelArtSettings {
+  enabled: boolean;
+  scale: number; // output pixels per art pixel; frames render this many times smaller
+  outline: boolean;
+  outlineColor: string;
+  palette: PaletteSource;
+  colors: number; // size of the auto palette
+  customPalette: string[]; // #rrggbb colours read from an uploaded .gpl, .hex or swatch image
+  dither: DitherMode;
+  lockPalette: boolean; // the first auto palette of a run is reused by every later sheet
+}
+
+// Extra strips rendered with the same camera and frames as the colour strip
+export type CompanionMap = 'normal' | 'depth' | 'id';
+
+// What a viewer shows: the colour strip or one of its companions
+export type SheetChannel = 'color' | CompanionMap;
+
+// Where engines anchor each frame: its centre, the model's feet, or a set point
+export type PivotMode = 'center' | 'bottom-center' | 'custom';
+
+export interface TrimSettings {
+  enabled: boolean; // crop every frame to the pixels that differ from the background
+  padding: number; // pixels kept around the cropped bounds
+  pivot: PivotMode;
+  pivotX: number; // custom only, 0-1 across the untrimmed frame
+  pivotY: number; // custom only, 0-1 down the untrimmed frame
+}
+
+// Where a trimmed frame's pixels sat in the untrimmed frame, in pixels
+export interface FrameTrim {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface RotationSettings {
+  startAngle: number; // degrees
+  endAngle: number; // degrees
+  axis: RotationAxis;
+  direction: RotationDirection;
+}
+
 export interface SpriteStripData {
   id: string;
   title: string;
   description: string;
   spriteStripUrl: string; // data URL of the generated sprite strip image
+  companionUrls?: Partial<Record<CompanionMap, string>>; // data URLs of the companion strips, laid out like the colour strip
   modelUrl: string; // object URL of the uploaded model file
   frameCount: number;
-  ratio: '16:9' | '4:3' | '1:1' | 'auto';
+  ratio: AspectRatio;
   createdAt: string;
   tags: string[];
   metadata: {
@@ -15,6 +143,101 @@ export interface SpriteStripData {
     width: number;
     height: number;
     uniqueId: string;
+    frameCount: number;
+    rotation?: RotationSettings; // turntable sheets only
+    frameAngles: number[]; // degrees, one entry per frame
+    layout: SheetGeometry;
+    backgroundColor: string;
+    backgroundMode?: BackgroundMode; // missing on sheets generated before transparency existed
+    camera?: CameraSettings & { effectiveDistance: number }; // missing on sheets generated before camera options existed
+    animation?: {
+      clip: string;
+      duration: number; // seconds
+      fps: number; // samples per second of clip time
+      frameTimes: number[]; // seconds into the clip, one entry per frame
+    }; // animation clip and directional sheets only
+    directions?: SheetDirection[]; // directional sheets only, one per row
+    variant?: string; // base colour texture of a texture variant render
+    pixelScale?: number; // pixel-art sheets only, output pixels per art pixel
+    pivot?: { x: number; y: number }; // 0-1 within the untrimmed frame; missing on sheets generated before pivots existed
+    trim?: {
+      sourceWidth: number; // untrimmed frame size
+      sourceHeight: number;
+      frames: FrameTrim[]; // one per frame; each sits at the top left of its layout cell
+    }; // trimmed sheets only
+    companions?: {
+      maps: CompanionMap[];
+      depthRange?: { near: number; far: number }; // camera distances drawn white and black in the depth strip
+      ids?: { name: string; color: string }[]; // ID mask colour of each material
+    };
+  };
+}
+
+export type SheetLayoutMode = 'horizontal' | 'vertical' | 'grid';
+
+export interface SheetLayout {
+  mode: SheetLayoutMode;
+  columns?: number; // grid only, omit for auto
+  rows?: number; // grid only, omit for auto
+  padding: number; // pixels between frames and around the sheet edge
+}
+
+export interface SheetGeometry {
+  mode: SheetLayoutMode;
+  columns: number;
+  rows: number;
+  padding: number;
+  frameWidth: number;
+  frameHeight: number;
+  sheetWidth: number;
+  sheetHeight: number;
+}
+
+// 'custom' uses the frame size in pixels; 'auto' fits each frame to the model
+export type AspectRatio = '16:9' | '4:3' | '1:1' | 'custom' | 'auto';
+
+export interface FrameSize {
+  width: number; // pixels
+  height: number; // pixels
+}
+
+// Everything the form controls, in a serialisable shape
+export interface GenerationSettings {
+  ratio: AspectRatio;
+  frameSize: FrameSize; // 'custom' frames, and the largest frame 'auto' may produce
+  sourceMode: SourceMode; // turn the model around, or play its animation clips from a fixed angle
+  frameCount: number;
+  rotation: RotationSettings;
+  animation: AnimationSettings; // also samples the clip of a directional sheet
+  directional: DirectionalSettings;
+  layout: SheetLayout;
+  backgroundColor: string;
+  backgroundMode: BackgroundMode;
+  fringeFix: boolean; // transparent mode: re-colour anti-aliased edge pixels from the model
+  camera: CameraSettings;
+  lighting: {
+    ambientIntensity: number;
+    lights: LightSettings[]; // follow the camera, so the model turns under a fixed rig
   };
+  environment: EnvironmentSettings; // image-based lighting and reflections
+  materialTextures: MaterialTextureMap;
+  pixelArt: PixelArtSettings;
+  companionMaps: CompanionMap[];
+  trim: TrimSettings;
 }
 
+export interface HistoryEntry {
+  id: string;
+  title: string;
+  createdAt: string;
+  data: Omit<SpriteStripData, 'spriteStripUrl' | 'companionUrls' | 'modelUrl'>;
+  image: Blob;
+  companions?: Partial<Record<CompanionMap, Blob>>; // companion strips; missing on entries saved before they were kept
+  settings: GenerationSettings;
+  model?: File;
+  texture?: File; // base colour of entries saved before texture slots
+  textures?: TextureSet;
+  materialTextures?: File[]; // the uploads named in settings.materialTextures
+  resources?: File[]; // companion files of a multi-file model
+  environment?: File; // uploaded environment map, when the settings use a custom one
+}